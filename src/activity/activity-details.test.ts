@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+
+import { decodeActivityDetails } from './activity-details';
+import type { ActivityDetailsResponse } from './types/activity-details';
+
+function response(overrides: Partial<ActivityDetailsResponse> = {}): ActivityDetailsResponse {
+  return {
+    activityId: 42,
+    measurementCount: 2,
+    metricsCount: 4,
+    metricDescriptors: [
+      { metricsIndex: 2, key: 'directHeartRate', unit: { id: 100, key: 'bpm', factor: 1 } },
+      { metricsIndex: 0, key: 'directTimestamp', unit: { id: 120, key: 'gmt', factor: 0 } },
+      { metricsIndex: 3, key: 'directBikeCadence', unit: { id: 91, key: 'rpm', factor: 1 } },
+      { metricsIndex: 1, key: 'directAirTemperature', unit: { id: 80, key: 'celcius', factor: 1 } },
+    ],
+    activityDetailMetrics: [{ metrics: [1_776_300_000_000, 18, 120, 85] }, { metrics: [1_776_300_001_000, 18, 0, 86] }],
+    geoPolylineDTO: {
+      polyline: [{ lat: 51.5, lon: -0.12, time: 1_776_300_000_000 }],
+    },
+    ...overrides,
+  };
+}
+
+describe('decodeActivityDetails', () => {
+  it('maps columns through the descriptor index rather than their position', () => {
+    const details = decodeActivityDetails(response());
+    expect(details.series.timestamp).toEqual([1_776_300_000_000, 1_776_300_001_000]);
+    expect(details.series.heartRate).toEqual([120, 0]);
+    expect(details.metrics.directAirTemperature).toEqual([18, 18]);
+  });
+
+  it('uses the sport-specific cadence key and leaves unrecorded series undefined', () => {
+    const details = decodeActivityDetails(response());
+    expect(details.series.cadence).toEqual([85, 86]);
+    expect(details.series.power).toBeUndefined();
+  });
+
+  it('returns an empty polyline when the activity has no GPS track', () => {
+    const details = decodeActivityDetails(response({ geoPolylineDTO: undefined }));
+    expect(details.polyline).toEqual([]);
+  });
+});
@@ -0,0 +1,51 @@
+import type {
+  ActivityDetails,
+  ActivityDetailsResponse,
+  ActivityDetailsSeries,
+  MetricSeries,
+} from './types/activity-details';
+
+// Descriptor keys for each named series, in order of preference. Cadence is
+// reported under a sport-specific key, so the first one present wins.
+const SERIES_DESCRIPTOR_KEYS: Record<keyof ActivityDetailsSeries, string[]> = {
+  timestamp: ['directTimestamp'],
+  duration: ['sumDuration', 'sumMovingDuration'],
+  elapsedDuration: ['sumElapsedDuration'],
+  distance: ['sumDistance'],
+  heartRate: ['directHeartRate'],
+  speed: ['directSpeed'],
+  elevation: ['directElevation'],
+  cadence: ['directRunCadence', 'directBikeCadence', 'directSwimCadence', 'directDoubleCadence'],
+  power: ['directPower'],
+  latitude: ['directLatitude'],
+  longitude: ['directLongitude'],
+};
+
+// Turns the column-oriented details response into per-metric series. Columns
+// are located through `metricDescriptors[].metricsIndex` rather than by
+// position, because Garmin changes the column order between activities.
+export function decodeActivityDetails(response: ActivityDetailsResponse): ActivityDetails {
+  const metrics: Record<string, MetricSeries> = {};
+  for (const descriptor of response.metricDescriptors) {
+    metrics[descriptor.key] = response.activityDetailMetrics.map(
+      measurement => measurement.metrics[descriptor.metricsIndex]
+    );
+  }
+
+  const series: ActivityDetailsSeries = {};
+  for (const [name, keys] of Object.entries(SERIES_DESCRIPTOR_KEYS) as [keyof ActivityDetailsSeries, string[]][]) {
+    const key = keys.find(candidate => candidate in metrics);
+    if (key) {
+      series[name] = metrics[key];
+    }
+  }
+
+  return {
+    activityId: response.activityId,
+    measurementCount: response.measurementCount,
+    series,
+    metrics,
+    descriptors: response.metricDescriptors,
+    polyline: response.geoPolylineDTO?.polyline ?? [],
+  };
+}
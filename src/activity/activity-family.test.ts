@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+
+import { type Activity, ActivityFamily, ActivityTypeKey, EventTypeKey, PrivacyTypeKey } from '../types';
+
+import { getActivityFamily, isRunningActivity, isStrengthActivity, toActivitySubtype } from './activity-family';
+
+function activity(typeKey: ActivityTypeKey, overrides: Partial<Activity> = {}): Activity {
+  return {
+    activityId: 1,
+    activityName: 'Morning activity',
+    activityType: { typeId: 1, typeKey, parentTypeId: 17, isHidden: false, restricted: false, trimmable: true },
+    duration: 1800,
+    eventType: { typeId: 9, typeKey: EventTypeKey.UNCATEGORIZED, sortOrder: 10 },
+    ownerDisplayName: 'runner',
+    ownerId: 1,
+    privacy: { typeId: 2, typeKey: PrivacyTypeKey.PRIVATE },
+    startTimeGMT: '2026-10-19 06:30:00',
+    startTimeLocal: '2026-10-19 07:30:00',
+    ...overrides,
+  };
+}
+
+describe('getActivityFamily', () => {
+  it('groups activity types into families', () => {
+    expect(getActivityFamily(ActivityTypeKey.TREADMILL_RUNNING)).toBe(ActivityFamily.RUNNING);
+    expect(getActivityFamily(ActivityTypeKey.GRAVEL_CYCLING)).toBe(ActivityFamily.CYCLING);
+    expect(getActivityFamily(ActivityTypeKey.POOL_APNEA)).toBe(ActivityFamily.DIVING);
+    expect(getActivityFamily(ActivityTypeKey.YOGA)).toBe(ActivityFamily.GENERIC);
+  });
+});
+
+describe('toActivitySubtype', () => {
+  it('tags a run with the running family and narrows its required fields', () => {
+    const subtype = toActivitySubtype(activity(ActivityTypeKey.TRAIL_RUNNING, { distance: 10_000, averageSpeed: 2.8 }));
+
+    expect(isRunningActivity(subtype)).toBe(true);
+    if (isRunningActivity(subtype)) {
+      const distance: number = subtype.distance;
+      expect(distance).toBe(10_000);
+    }
+  });
+
+  it('falls back to the generic family when required fields are missing', () => {
+    const subtype = toActivitySubtype(activity(ActivityTypeKey.STRENGTH_TRAINING));
+
+    expect(isStrengthActivity(subtype)).toBe(false);
+    expect(subtype.family).toBe(ActivityFamily.GENERIC);
+  });
+});
@@ -0,0 +1,119 @@
+import { Activity, ActivityFamily, ActivityTypeKey } from '../types';
+
+import {
+  ActivitySubtype,
+  CyclingActivity,
+  CyclingActivitySchema,
+  DiveActivity,
+  DiveActivitySchema,
+  GenericActivity,
+  RunningActivity,
+  RunningActivitySchema,
+  StrengthActivity,
+  StrengthActivitySchema,
+  SwimActivity,
+  SwimActivitySchema,
+} from './types/activity-subtypes';
+
+// Activity types grouped by family, mirroring the groups in `ActivityTypeKey`.
+// Types not listed here belong to the generic family.
+const ACTIVITY_FAMILY_TYPES: Record<Exclude<ActivityFamily, ActivityFamily.GENERIC>, ActivityTypeKey[]> = {
+  [ActivityFamily.RUNNING]: [
+    ActivityTypeKey.RUNNING,
+    ActivityTypeKey.INDOOR_RUNNING,
+    ActivityTypeKey.OBSTACLE_COURSE_RACING,
+    ActivityTypeKey.STREET_RUNNING,
+    ActivityTypeKey.TRACK_RUNNING,
+    ActivityTypeKey.TRAIL_RUNNING,
+    ActivityTypeKey.TREADMILL_RUNNING,
+    ActivityTypeKey.ULTRA_RUNNING,
+    ActivityTypeKey.VIRTUAL_RUNNING,
+  ],
+  [ActivityFamily.CYCLING]: [
+    ActivityTypeKey.CYCLING,
+    ActivityTypeKey.BMX,
+    ActivityTypeKey.CYCLOCROSS,
+    ActivityTypeKey.DOWNHILL_MOUNTAIN_BIKING,
+    ActivityTypeKey.E_BIKING,
+    ActivityTypeKey.E_MOUNTAIN_BIKING,
+    ActivityTypeKey.E_ENDURO_MOUNTAIN_BIKING,
+    ActivityTypeKey.ENDURO_MOUNTAIN_BIKING,
+    ActivityTypeKey.GRAVEL_CYCLING,
+    ActivityTypeKey.HANDCYCLING,
+    ActivityTypeKey.INDOOR_CYCLING,
+    ActivityTypeKey.INDOOR_HANDCYCLING,
+    ActivityTypeKey.MOUNTAIN_BIKING,
+    ActivityTypeKey.RECUMBENT_CYCLING,
+    ActivityTypeKey.ROAD_CYCLING,
+    ActivityTypeKey.TRACK_CYCLING,
+    ActivityTypeKey.VIRTUAL_CYCLING,
+  ],
+  [ActivityFamily.SWIMMING]: [ActivityTypeKey.SWIMMING, ActivityTypeKey.POOL_SWIM, ActivityTypeKey.OPEN_WATER_SWIMMING],
+  [ActivityFamily.STRENGTH]: [ActivityTypeKey.STRENGTH_TRAINING],
+  [ActivityFamily.DIVING]: [
+    ActivityTypeKey.DIVING,
+    ActivityTypeKey.APNEA,
+    ActivityTypeKey.APNEA_HUNT,
+    ActivityTypeKey.CCR_DIVE,
+    ActivityTypeKey.GAUGE_DIVE,
+    ActivityTypeKey.MULTI_GAS_DIVE,
+    ActivityTypeKey.POOL_APNEA,
+    ActivityTypeKey.SINGLE_GAS_DIVE,
+  ],
+};
+
+const FAMILY_BY_TYPE = new Map(
+  Object.entries(ACTIVITY_FAMILY_TYPES).flatMap(([family, types]) =>
+    types.map(type => [type, family as ActivityFamily] as const)
+  )
+);
+
+const FAMILY_SCHEMAS = {
+  [ActivityFamily.RUNNING]: RunningActivitySchema,
+  [ActivityFamily.CYCLING]: CyclingActivitySchema,
+  [ActivityFamily.SWIMMING]: SwimActivitySchema,
+  [ActivityFamily.STRENGTH]: StrengthActivitySchema,
+  [ActivityFamily.DIVING]: DiveActivitySchema,
+};
+
+export function getActivityFamily(typeKey: ActivityTypeKey): ActivityFamily {
+  return FAMILY_BY_TYPE.get(typeKey) ?? ActivityFamily.GENERIC;
+}
+
+// Tags an activity with its family and validates the family's required
+// fields. An activity missing them (e.g. a manually entered run without a
+// distance) falls back to the generic family rather than failing to parse.
+export function toActivitySubtype(activity: Activity): ActivitySubtype {
+  const family = getActivityFamily(activity.activityType.typeKey);
+  if (family !== ActivityFamily.GENERIC) {
+    const parsed = FAMILY_SCHEMAS[family].safeParse({ ...activity, family });
+    if (parsed.success) {
+      return parsed.data;
+    }
+  }
+  return { ...activity, family: ActivityFamily.GENERIC };
+}
+
+export function isRunningActivity(activity: ActivitySubtype): activity is RunningActivity {
+  return activity.family === ActivityFamily.RUNNING;
+}
+
+export function isCyclingActivity(activity: ActivitySubtype): activity is CyclingActivity {
+  return activity.family === ActivityFamily.CYCLING;
+}
+
+export function isSwimActivity(activity: ActivitySubtype): activity is SwimActivity {
+  return activity.family === ActivityFamily.SWIMMING;
+}
+
+export function isStrengthActivity(activity: ActivitySubtype): activity is StrengthActivity {
+  return activity.family === ActivityFamily.STRENGTH;
+}
+
+export function isDiveActivity(activity: ActivitySubtype): activity is DiveActivity {
+  return activity.family === ActivityFamily.DIVING;
+}
+
+export function isGenericActivity(activity: ActivitySubtype): activity is GenericActivity {
+  return activity.family === ActivityFamily.GENERIC;
+}
@@ -0,0 +1,11 @@
+export * from './activity-details';
+export * from './activity-family';
+export * from './types/activity-details';
+export * from './types/activity-splits';
+export * from './types/activity-download';
+export * from './types/activity-upload';
+export * from './types/activity-update';
+export * from './types/manual-activity';
+export * from './types/activity-subtypes';
+export * from './types/time-in-zone';
+export * from './types/personal-record';
@@ -0,0 +1,26 @@
+import { DateTime } from 'luxon';
+import { describe, expect, it } from 'vitest';
+
+import { ActivityTypeKey } from '../types';
+
+import { toExerciseSetsRequest, toManualActivityRequest } from './manual-activity';
+
+describe('toManualActivityRequest', () => {
+  it('sends the local start time with its time zone', () => {
+    const start = DateTime.fromISO('2026-10-19T07:30:00', { zone: 'Europe/London' }) as DateTime<true>;
+    const request = toManualActivityRequest({ type: ActivityTypeKey.STRENGTH_TRAINING, start, duration: 2700 });
+
+    expect(request.timeZoneUnitDTO).toEqual({ unitKey: 'Europe/London' });
+    expect(request.summaryDTO.startTimeLocal).toBe('2026-10-19T07:30:00.000');
+    expect(request.metadataDTO).toEqual({ autoCalcCalories: true });
+  });
+});
+
+describe('toExerciseSetsRequest', () => {
+  it('converts weights from kilograms to grams', () => {
+    const request = toExerciseSetsRequest(42, [{ category: 'SQUAT', reps: 5, weight: 102.5 }]);
+
+    expect(request.exerciseSets[0]).toMatchObject({ repetitionCount: 5, weight: 102_500, setType: 'ACTIVE' });
+    expect(request.exerciseSets[0].exercises).toEqual([{ category: 'SQUAT', name: undefined, probability: 100 }]);
+  });
+});
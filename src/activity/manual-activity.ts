@@ -0,0 +1,35 @@
+import type { ExerciseSet, ManualActivity } from './types/manual-activity';
+
+// Garmin stores exercise set weights in grams
+const GRAMS_PER_KILOGRAM = 1000;
+
+// Builds the activity-service request body for a manually entered activity.
+export function toManualActivityRequest(activity: ManualActivity) {
+  return {
+    activityName: activity.name,
+    activityTypeDTO: { typeKey: activity.type },
+    accessControlRuleDTO: activity.privacy ? { typeKey: activity.privacy } : undefined,
+    timeZoneUnitDTO: { unitKey: activity.start.zoneName },
+    metadataDTO: { autoCalcCalories: activity.calories === undefined },
+    summaryDTO: {
+      startTimeLocal: activity.start.toFormat("yyyy-MM-dd'T'HH:mm:ss.SSS"),
+      duration: activity.duration,
+      distance: activity.distance,
+      calories: activity.calories,
+    },
+  };
+}
+
+// Builds the request body that replaces an activity's exercise sets.
+export function toExerciseSetsRequest(activityId: number, sets: ExerciseSet[]) {
+  return {
+    activityId,
+    exerciseSets: sets.map(set => ({
+      setType: 'ACTIVE',
+      exercises: [{ category: set.category, name: set.name, probability: 100 }],
+      repetitionCount: set.reps,
+      weight: set.weight === undefined ? undefined : set.weight * GRAMS_PER_KILOGRAM,
+      duration: set.duration,
+    })),
+  };
+}
@@ -0,0 +1,104 @@
+import { z } from 'zod';
+
+// Describes one column of `activityDetailMetrics`. Garmin does not guarantee
+// the column order, so values must be looked up through `metricsIndex`.
+export const MetricDescriptorSchema = z.object({
+  metricsIndex: z.number(),
+  key: z.string(),
+  unit: z
+    .object({
+      id: z.number(),
+      key: z.string(),
+      factor: z.number(),
+    })
+    .optional(),
+});
+
+export const ActivityDetailMetricsSchema = z.object({
+  metrics: z.array(z.number().nullable()),
+});
+
+export const GeoPolylinePointSchema = z
+  .object({
+    lat: z.number(),
+    lon: z.number(),
+    altitude: z.number().nullable().optional(),
+    time: z.number(), // Unix timestamp in milliseconds
+    timerStart: z.boolean().optional(),
+    timerStop: z.boolean().optional(),
+    distanceFromPreviousPoint: z.number().nullable().optional(),
+    distanceInMeters: z.number().nullable().optional(),
+    speed: z.number().nullable().optional(),
+    cumulativeAscent: z.number().nullable().optional(),
+    cumulativeDescent: z.number().nullable().optional(),
+    extendedCoordinate: z.boolean().optional(),
+    valid: z.boolean().optional(),
+  })
+  .passthrough();
+
+export const GeoPolylineSchema = z
+  .object({
+    startPoint: GeoPolylinePointSchema.nullable().optional(),
+    endPoint: GeoPolylinePointSchema.nullable().optional(),
+    minLat: z.number().optional(),
+    maxLat: z.number().optional(),
+    minLon: z.number().optional(),
+    maxLon: z.number().optional(),
+    polyline: z.array(GeoPolylinePointSchema),
+  })
+  .passthrough();
+
+export const ActivityDetailsResponseSchema = z
+  .object({
+    activityId: z.number(),
+    measurementCount: z.number(),
+    metricsCount: z.number(),
+    detailsAvailable: z.boolean().optional(),
+    metricDescriptors: z.array(MetricDescriptorSchema),
+    activityDetailMetrics: z.array(ActivityDetailMetricsSchema),
+    geoPolylineDTO: GeoPolylineSchema.nullable().optional(),
+  })
+  .passthrough();
+
+export type MetricDescriptor = z.infer<typeof MetricDescriptorSchema>;
+export type ActivityDetailMetrics = z.infer<typeof ActivityDetailMetricsSchema>;
+export type GeoPolylinePoint = z.infer<typeof GeoPolylinePointSchema>;
+export type GeoPolyline = z.infer<typeof GeoPolylineSchema>;
+export type ActivityDetailsResponse = z.infer<typeof ActivityDetailsResponseSchema>;
+
+// One value per measurement; null where the device recorded no sample.
+export type MetricSeries = (number | null)[];
+
+// Well-known series, decoded by descriptor key. A series is undefined when the
+// activity did not record that metric (e.g. power on a run without a footpod).
+export interface ActivityDetailsSeries {
+  timestamp?: MetricSeries; // Unix timestamp in milliseconds
+  duration?: MetricSeries; // seconds since start, excluding pauses
+  elapsedDuration?: MetricSeries; // seconds since start, including pauses
+  distance?: MetricSeries; // cumulative meters
+  heartRate?: MetricSeries; // bpm
+  speed?: MetricSeries; // meters per second
+  elevation?: MetricSeries; // meters
+  cadence?: MetricSeries; // steps (run) or revolutions (bike) per minute
+  power?: MetricSeries; // watts
+  latitude?: MetricSeries;
+  longitude?: MetricSeries;
+}
+
+export interface ActivityDetailsOptions {
+  // Maximum number of measurements returned (Garmin downsamples longer activities)
+  maxChartSize?: number;
+  // Maximum number of GPS polyline points returned
+  maxPolylineSize?: number;
+}
+
+export interface ActivityDetails {
+  activityId: number;
+  measurementCount: number;
+  series: ActivityDetailsSeries;
+  // Every series in the response keyed by Garmin's descriptor key
+  // (e.g. `directHeartRate`, `directAirTemperature`), including those not in `series`
+  metrics: Record<string, MetricSeries>;
+  descriptors: MetricDescriptor[];
+  polyline: GeoPolylinePoint[];
+}
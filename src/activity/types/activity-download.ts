@@ -0,0 +1,12 @@
+export const ACTIVITY_DOWNLOAD_FORMATS = ['fit', 'gpx', 'tcx', 'kml', 'csv'] as const;
+
+// `fit` is the original file uploaded by the device (usually FIT), the others
+// are exports generated by Garmin Connect
+export type ActivityDownloadFormat = (typeof ACTIVITY_DOWNLOAD_FORMATS)[number];
+
+export type ActivityExportFormat = Exclude<ActivityDownloadFormat, 'fit'>;
+
+export interface ActivityDownloadOptions {
+  // Resolve to a Readable stream instead of a Buffer
+  stream?: boolean;
+}
@@ -0,0 +1,77 @@
+import { z } from 'zod';
+
+// Per-lap metrics shared by laps and typed splits. Speeds are in meters per
+// second (pace is their reciprocal), distances and elevations in meters and
+// durations in seconds.
+const LapMetricsSchema = z.object({
+  averageHR: z.number().optional(),
+  averageMovingSpeed: z.number().optional(),
+  averagePower: z.number().optional(),
+  averageRunCadence: z.number().optional(),
+  averageSpeed: z.number().optional(),
+  avgGradeAdjustedSpeed: z.number().optional(),
+  calories: z.number().optional(),
+  distance: z.number().optional(), // in meters
+  duration: z.number().optional(), // in seconds
+  elapsedDuration: z.number().optional(), // in seconds
+  elevationGain: z.number().optional(), // in meters
+  elevationLoss: z.number().optional(), // in meters
+  endLatitude: z.number().optional(),
+  endLongitude: z.number().optional(),
+  maxElevation: z.number().optional(),
+  maxHR: z.number().optional(),
+  maxPower: z.number().optional(),
+  maxRunCadence: z.number().optional(),
+  maxSpeed: z.number().optional(),
+  minElevation: z.number().optional(),
+  movingDuration: z.number().optional(), // in seconds
+  normalizedPower: z.number().optional(),
+  startLatitude: z.number().optional(),
+  startLongitude: z.number().optional(),
+  startTimeGMT: z.string().optional(), // ISO 8601 format
+});
+
+// Lap schema for the laps recorded on the device (auto-lap or lap button)
+export const ActivityLapSchema = LapMetricsSchema.extend({
+  averageBikeCadence: z.number().optional(),
+  averageTemperature: z.number().optional(),
+  groundContactTime: z.number().optional(), // in milliseconds
+  intensityType: z.string().optional(),
+  lapIndex: z.number().optional(),
+  maxBikeCadence: z.number().optional(),
+  maxTemperature: z.number().optional(),
+  messageIndex: z.number().optional(),
+  strideLength: z.number().optional(), // in centimeters
+  totalWork: z.number().optional(),
+  verticalOscillation: z.number().optional(), // in centimeters
+  verticalRatio: z.number().optional(),
+}).passthrough();
+
+export const ActivitySplitsSchema = z
+  .object({
+    activityId: z.number(),
+    lapDTOs: z.array(ActivityLapSchema),
+  })
+  .passthrough();
+
+// Typed split schema. Garmin classifies each segment of the activity, e.g.
+// `INTERVAL_ACTIVE` / `INTERVAL_RECOVERY` for workouts or `RWD_RUN` /
+// `RWD_WALK` for run-walk detection.
+export const ActivityTypedSplitSchema = LapMetricsSchema.extend({
+  endTimeGMT: z.string().optional(), // ISO 8601 format
+  messageIndex: z.number().optional(),
+  noOfSplits: z.number().optional(),
+  type: z.string(),
+}).passthrough();
+
+export const ActivityTypedSplitsSchema = z
+  .object({
+    activityId: z.number(),
+    splits: z.array(ActivityTypedSplitSchema),
+  })
+  .passthrough();
+
+export type ActivityLap = z.infer<typeof ActivityLapSchema>;
+export type ActivitySplits = z.infer<typeof ActivitySplitsSchema>;
+export type ActivityTypedSplit = z.infer<typeof ActivityTypedSplitSchema>;
+export type ActivityTypedSplits = z.infer<typeof ActivityTypedSplitsSchema>;
@@ -0,0 +1,62 @@
+import { z } from 'zod';
+
+import { ActivityFamily, ActivitySchema } from '../../types';
+
+// Per-family activity schemas. Each extends `ActivitySchema` with a `family`
+// discriminant and makes the fields Garmin always reports for that family
+// required, so consumers do not need to guess at `undefined`.
+
+export const RunningActivitySchema = ActivitySchema.extend({
+  family: z.literal(ActivityFamily.RUNNING),
+  distance: z.number(), // in meters
+  averageSpeed: z.number(), // in meters per second
+});
+
+export const CyclingActivitySchema = ActivitySchema.extend({
+  family: z.literal(ActivityFamily.CYCLING),
+  distance: z.number(), // in meters
+  averageSpeed: z.number(), // in meters per second
+  averageBikingCadenceInRevPerMinute: z.number().optional(),
+  maxBikingCadenceInRevPerMinute: z.number().optional(),
+});
+
+export const SwimActivitySchema = ActivitySchema.extend({
+  family: z.literal(ActivityFamily.SWIMMING),
+  distance: z.number(), // in meters
+  activeLengths: z.number().optional(),
+  averageSwimCadenceInStrokesPerMinute: z.number().optional(),
+  averageSwolf: z.number().optional(),
+  maxSwimCadenceInStrokesPerMinute: z.number().optional(),
+  poolLength: z.number().optional(), // in centimeters
+  totalNumberOfStrokes: z.number().optional(),
+});
+
+export const StrengthActivitySchema = ActivitySchema.extend({
+  family: z.literal(ActivityFamily.STRENGTH),
+  summarizedExerciseSets: ActivitySchema.shape.summarizedExerciseSets.unwrap(),
+  totalReps: z.number(),
+  totalSets: z.number(),
+});
+
+export const DiveActivitySchema = ActivitySchema.extend({
+  family: z.literal(ActivityFamily.DIVING),
+  summarizedDiveInfo: ActivitySchema.shape.summarizedDiveInfo.unwrap(),
+  avgDepth: z.number().optional(), // in meters
+  bottomTime: z.number().optional(), // in seconds
+  maxDepth: z.number().optional(), // in meters
+  surfaceInterval: z.number().optional(), // in seconds
+});
+
+export const GenericActivitySchema = ActivitySchema.extend({
+  family: z.literal(ActivityFamily.GENERIC),
+});
+
+export type RunningActivity = z.infer<typeof RunningActivitySchema>;
+export type CyclingActivity = z.infer<typeof CyclingActivitySchema>;
+export type SwimActivity = z.infer<typeof SwimActivitySchema>;
+export type StrengthActivity = z.infer<typeof StrengthActivitySchema>;
+export type DiveActivity = z.infer<typeof DiveActivitySchema>;
+export type GenericActivity = z.infer<typeof GenericActivitySchema>;
+
+export type ActivitySubtype =
+  RunningActivity | CyclingActivity | SwimActivity | StrengthActivity | DiveActivity | GenericActivity;
@@ -0,0 +1,19 @@
+import { z } from 'zod';
+
+import { ActivityTypeKey, PrivacyTypeKey } from '../../types';
+
+// Fields of an activity that can be changed with `updateActivity`. Omitted
+// fields are left untouched.
+export const ActivityUpdateSchema = z
+  .object({
+    name: z.string().trim().min(1).optional(),
+    description: z.string().optional(),
+    activityType: z.nativeEnum(ActivityTypeKey).optional(),
+    privacy: z.nativeEnum(PrivacyTypeKey).optional(),
+  })
+  .strict()
+  .refine(update => Object.values(update).some(value => value !== undefined), {
+    message: 'At least one field must be updated',
+  });
+
+export type ActivityUpdate = z.infer<typeof ActivityUpdateSchema>;
@@ -0,0 +1,53 @@
+import { z } from 'zod';
+
+export const ACTIVITY_UPLOAD_FORMATS = ['fit', 'gpx', 'tcx'] as const;
+
+export type ActivityUploadFormat = (typeof ACTIVITY_UPLOAD_FORMATS)[number];
+
+export interface ActivityUploadOptions {
+  // Required when uploading a Buffer; inferred from the extension for a file path
+  format?: ActivityUploadFormat;
+  // File name reported to Garmin (defaults to the path's base name or `activity.<format>`)
+  fileName?: string;
+  // Delay between upload status checks (default 1000)
+  pollIntervalMs?: number;
+  // Status checks before giving up with UploadTimeoutError (default 30)
+  maxPollAttempts?: number;
+}
+
+const UploadMessageSchema = z.object({
+  code: z.number(),
+  content: z.string(),
+});
+
+const UploadResultItemSchema = z
+  .object({
+    internalId: z.number().nullable().optional(), // Activity ID
+    externalId: z.string().nullable().optional(),
+    messages: z.array(UploadMessageSchema).nullable().optional(),
+  })
+  .passthrough();
+
+// Outcome of an upload. While Garmin is still processing the file both
+// `successes` and `failures` are empty.
+export const DetailedImportResultSchema = z
+  .object({
+    uploadId: z.number().nullable().optional(),
+    uploadUuid: z.object({ uuid: z.string() }).nullable().optional(),
+    creationDate: z.string().optional(), // e.g. "2026-10-19 16:40:41.123 GMT"
+    fileName: z.string().nullable().optional(),
+    successes: z.array(UploadResultItemSchema),
+    failures: z.array(UploadResultItemSchema),
+  })
+  .passthrough();
+
+export const ActivityUploadResponseSchema = z
+  .object({
+    detailedImportResult: DetailedImportResultSchema,
+  })
+  .passthrough();
+
+export type UploadMessage = z.infer<typeof UploadMessageSchema>;
+export type UploadResultItem = z.infer<typeof UploadResultItemSchema>;
+export type DetailedImportResult = z.infer<typeof DetailedImportResultSchema>;
+export type ActivityUploadResponse = z.infer<typeof ActivityUploadResponseSchema>;
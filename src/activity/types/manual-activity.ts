@@ -0,0 +1,30 @@
+import { DateTime } from 'luxon';
+import { z } from 'zod';
+
+import { ActivityTypeKey, PrivacyTypeKey } from '../../types';
+
+// An activity recorded without a device. `start` is interpreted in its own
+// time zone, which is also stored as the activity's time zone.
+export const ManualActivitySchema = z.object({
+  type: z.nativeEnum(ActivityTypeKey),
+  start: z.custom<DateTime<true>>(value => DateTime.isDateTime(value) && value.isValid, {
+    message: 'Expected a valid luxon DateTime',
+  }),
+  duration: z.number().positive(), // in seconds
+  distance: z.number().nonnegative().optional(), // in meters
+  calories: z.number().nonnegative().optional(),
+  name: z.string().trim().min(1).optional(),
+  privacy: z.nativeEnum(PrivacyTypeKey).optional(),
+});
+
+// Schema for a single strength training set, in the units Garmin displays
+export const ExerciseSetSchema = z.object({
+  category: z.string().min(1), // e.g. BENCH_PRESS
+  name: z.string().min(1).optional(), // e.g. BARBELL_BENCH_PRESS
+  reps: z.number().int().nonnegative(),
+  weight: z.number().nonnegative().optional(), // in kilograms
+  duration: z.number().positive().optional(), // in seconds
+});
+
+export type ManualActivity = z.infer<typeof ManualActivitySchema>;
+export type ExerciseSet = z.infer<typeof ExerciseSetSchema>;
@@ -0,0 +1,48 @@
+import { z } from 'zod';
+
+// Garmin's personal record `typeId` values. Record values are in seconds for
+// the "fastest" records, meters for distance and ascent, watts for power,
+// steps for step counts and days for the goal streak.
+export enum PersonalRecordType {
+  FASTEST_1K = 1,
+  FASTEST_MILE = 2,
+  FASTEST_5K = 3,
+  FASTEST_10K = 4,
+  FASTEST_HALF_MARATHON = 5,
+  FASTEST_MARATHON = 6,
+  LONGEST_RUN = 7,
+  LONGEST_RIDE = 8,
+  MOST_RIDE_ASCENT = 9,
+  MAX_20_MIN_AVERAGE_POWER = 10,
+  FASTEST_40K_RIDE = 11,
+  MOST_STEPS_IN_A_DAY = 12,
+  MOST_STEPS_IN_A_WEEK = 13,
+  MOST_STEPS_IN_A_MONTH = 14,
+  LONGEST_STEP_GOAL_STREAK = 15,
+}
+
+const KNOWN_RECORD_TYPES = new Set<number>(
+  Object.values(PersonalRecordType).filter((value): value is number => typeof value === 'number')
+);
+
+export const PersonalRecordSchema = z
+  .object({
+    id: z.number(),
+    typeId: z.number(),
+    value: z.number(),
+    activityId: z.number().nullable().optional(), // null for step records
+    activityName: z.string().nullable().optional(),
+    activityType: z.string().nullable().optional(),
+    activityStartDateTimeInGMT: z.number().nullable().optional(), // Unix timestamp in milliseconds
+    prStartTimeGmt: z.number(), // Unix timestamp in milliseconds
+    prStartTimeLocal: z.number().optional(), // Unix timestamp in milliseconds
+    prTypeLabelKey: z.string().nullable().optional(),
+  })
+  .passthrough()
+  .transform(record => ({
+    ...record,
+    // undefined for record types this library does not know about yet (e.g. swim records)
+    recordType: KNOWN_RECORD_TYPES.has(record.typeId) ? (record.typeId as PersonalRecordType) : undefined,
+  }));
+
+export type PersonalRecord = z.infer<typeof PersonalRecordSchema>;
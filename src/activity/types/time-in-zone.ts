@@ -0,0 +1,10 @@
+import { z } from 'zod';
+
+// Time spent in one heart rate or power zone during an activity
+export const TimeInZoneSchema = z.object({
+  zoneNumber: z.number(),
+  zoneLowBoundary: z.number(), // bpm or watts
+  secsInZone: z.number(),
+});
+
+export type TimeInZone = z.infer<typeof TimeInZoneSchema>;
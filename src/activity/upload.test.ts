@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+
+import { DuplicateActivityError, UploadRejectedError } from '../errors';
+
+import type { DetailedImportResult } from './types/activity-upload';
+import { parseUploadCreationDate, resolveUploadResult } from './upload';
+
+function result(overrides: Partial<DetailedImportResult> = {}): DetailedImportResult {
+  return {
+    uploadId: 1,
+    uploadUuid: { uuid: '3d0b2c1e' },
+    creationDate: '2026-10-19 16:40:41.123 GMT',
+    fileName: 'ride.fit',
+    successes: [],
+    failures: [],
+    ...overrides,
+  };
+}
+
+describe('resolveUploadResult', () => {
+  it('returns undefined while the upload is still processing', () => {
+    expect(resolveUploadResult(result())).toBeUndefined();
+  });
+
+  it('returns the created activity id', () => {
+    expect(resolveUploadResult(result({ successes: [{ internalId: 21_000_000_001, messages: [] }] }))).toBe(
+      21_000_000_001
+    );
+  });
+
+  it('throws DuplicateActivityError with the existing activity id', () => {
+    const duplicate = result({
+      failures: [{ internalId: 20_000_000_000, messages: [{ code: 202, content: 'Duplicate Activity.' }] }],
+    });
+    expect(() => resolveUploadResult(duplicate)).toThrow(expect.objectContaining({ activityId: 20_000_000_000 }));
+    expect(() => resolveUploadResult(duplicate)).toThrow(DuplicateActivityError);
+  });
+
+  it('throws UploadRejectedError with the failure messages', () => {
+    const rejected = result({ failures: [{ messages: [{ code: 100, content: 'Invalid file.' }] }] });
+    expect(() => resolveUploadResult(rejected)).toThrow(UploadRejectedError);
+    expect(() => resolveUploadResult(rejected)).toThrow('Activity upload was rejected: Invalid file.');
+  });
+});
+
+describe('parseUploadCreationDate', () => {
+  it('parses the GMT timestamp into epoch milliseconds', () => {
+    expect(parseUploadCreationDate('2026-10-19 16:40:41.123 GMT')).toBe(Date.UTC(2026, 9, 19, 16, 40, 41, 123));
+  });
+
+  it('returns undefined for an unrecognized format', () => {
+    expect(parseUploadCreationDate('yesterday')).toBeUndefined();
+  });
+});
@@ -0,0 +1,36 @@
+import { DateTime } from 'luxon';
+
+import { DuplicateActivityError, UploadRejectedError } from '../errors';
+
+import type { DetailedImportResult } from './types/activity-upload';
+
+// Message code Garmin attaches to a failure when the file was imported before
+const DUPLICATE_ACTIVITY_CODE = 202;
+
+// Returns the created activity ID once the upload has been processed, or
+// undefined while it is still pending. Throws DuplicateActivityError or
+// UploadRejectedError when Garmin reports a failure.
+export function resolveUploadResult(result: DetailedImportResult): number | undefined {
+  const [failure] = result.failures;
+  if (failure) {
+    const messages = failure.messages ?? [];
+    if (messages.some(message => message.code === DUPLICATE_ACTIVITY_CODE)) {
+      throw new DuplicateActivityError(undefined, failure.internalId ?? undefined);
+    }
+    const contents = messages.map(message => message.content);
+    throw new UploadRejectedError(
+      contents.length > 0 ? `Activity upload was rejected: ${contents.join('; ')}` : undefined,
+      contents
+    );
+  }
+
+  const success = result.successes.find(item => typeof item.internalId === 'number');
+  return success?.internalId ?? undefined;
+}
+
+// Parses the upload's `creationDate` ("2026-10-19 16:40:41.123 GMT") into the
+// epoch milliseconds expected by the upload status endpoint.
+export function parseUploadCreationDate(creationDate: string): number | undefined {
+  const parsed = DateTime.fromFormat(creationDate, "yyyy-MM-dd HH:mm:ss.SSS 'GMT'", { zone: 'utc' });
+  return parsed.isValid ? parsed.toMillis() : undefined;
+}
@@ -0,0 +1,70 @@
+import { deflateRawSync } from 'node:zlib';
+
+import { describe, expect, it } from 'vitest';
+
+import { GarminConnectError } from '../errors';
+
+import { extractFirstZipEntry } from './zip';
+
+// Builds a single-entry archive. CRCs are left at zero since the reader does
+// not verify them.
+function zip(name: string, content: Buffer, compressionMethod: 0 | 8): Buffer {
+  const data = compressionMethod === 8 ? deflateRawSync(content) : content;
+  const fileName = Buffer.from(name);
+
+  const local = Buffer.alloc(30);
+  local.writeUInt32LE(0x04_03_4b_50, 0);
+  local.writeUInt16LE(compressionMethod, 8);
+  local.writeUInt32LE(data.length, 18);
+  local.writeUInt32LE(content.length, 22);
+  local.writeUInt16LE(fileName.length, 26);
+
+  const central = Buffer.alloc(46);
+  central.writeUInt32LE(0x02_01_4b_50, 0);
+  central.writeUInt16LE(compressionMethod, 10);
+  central.writeUInt32LE(data.length, 20);
+  central.writeUInt32LE(content.length, 24);
+  central.writeUInt16LE(fileName.length, 28);
+  central.writeUInt32LE(0, 42);
+
+  const centralOffset = local.length + fileName.length + data.length;
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06_05_4b_50, 0);
+  end.writeUInt16LE(1, 8);
+  end.writeUInt16LE(1, 10);
+  end.writeUInt32LE(central.length + fileName.length, 12);
+  end.writeUInt32LE(centralOffset, 16);
+
+  return Buffer.concat([local, fileName, data, central, fileName, end]);
+}
+
+const FIT = Buffer.from('0e10d9076a0b00002e464954', 'hex');
+
+describe('extractFirstZipEntry', () => {
+  it('inflates a deflated entry', () => {
+    const entry = extractFirstZipEntry(zip('12345_ACTIVITY.fit', FIT, 8));
+    expect(entry.name).toBe('12345_ACTIVITY.fit');
+    expect(entry.data.equals(FIT)).toBe(true);
+  });
+
+  it('returns a stored entry as-is', () => {
+    expect(extractFirstZipEntry(zip('a.fit', FIT, 0)).data.equals(FIT)).toBe(true);
+  });
+
+  it('rejects data that is not a zip archive', () => {
+    expect(() => extractFirstZipEntry(FIT)).toThrow(GarminConnectError);
+  });
+
+  it('rejects a truncated archive', () => {
+    const archive = zip('a.fit', FIT, 8);
+    // Cut the entry data short but keep the central directory intact
+    const truncated = Buffer.concat([archive.subarray(0, 36), archive.subarray(-(46 + 5 + 22))]);
+    expect(() => extractFirstZipEntry(truncated)).toThrow(GarminConnectError);
+  });
+
+  it('rejects a central directory offset past the end of the archive', () => {
+    const end = zip('a.fit', FIT, 8).subarray(-22);
+    end.writeUInt32LE(5000, 16);
+    expect(() => extractFirstZipEntry(end)).toThrow(GarminConnectError);
+  });
+});
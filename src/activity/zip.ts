@@ -0,0 +1,95 @@
+import { inflateRawSync } from 'node:zlib';
+
+import { GarminConnectError } from '../errors';
+
+// Minimal reader for the single-file zip archives returned by the original
+// activity download. Only stored (0) and deflated (8) entries are supported,
+// which covers everything Garmin produces.
+
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06_05_4b_50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02_01_4b_50;
+const LOCAL_FILE_HEADER_SIGNATURE = 0x04_03_4b_50;
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22;
+const CENTRAL_DIRECTORY_HEADER_SIZE = 46;
+const LOCAL_FILE_HEADER_SIZE = 30;
+// The archive comment is at most 65535 bytes
+const MAX_END_OF_CENTRAL_DIRECTORY_SEARCH = END_OF_CENTRAL_DIRECTORY_SIZE + 0xff_ff;
+
+const COMPRESSION_STORED = 0;
+const COMPRESSION_DEFLATE = 8;
+
+export interface ZipEntry {
+  name: string;
+  data: Buffer;
+}
+
+// Offsets and sizes come from the archive itself, so a truncated or corrupt
+// download must fail here rather than with a RangeError from Buffer reads.
+function requireRange(archive: Buffer, offset: number, length: number, structure: string): void {
+  if (offset + length > archive.length) {
+    throw new GarminConnectError(`Invalid zip archive: ${structure} extends past the end of the archive`);
+  }
+}
+
+function findEndOfCentralDirectory(archive: Buffer): number {
+  const lowest = Math.max(0, archive.length - MAX_END_OF_CENTRAL_DIRECTORY_SEARCH);
+  for (let offset = archive.length - END_OF_CENTRAL_DIRECTORY_SIZE; offset >= lowest; offset--) {
+    if (archive.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+      return offset;
+    }
+  }
+  throw new GarminConnectError('Invalid zip archive: end of central directory not found');
+}
+
+// Extracts the first file in the archive. Sizes are read from the central
+// directory because local headers may defer them to a trailing data descriptor.
+export function extractFirstZipEntry(archive: Buffer): ZipEntry {
+  const endOffset = findEndOfCentralDirectory(archive);
+  if (archive.readUInt16LE(endOffset + 10) === 0) {
+    throw new GarminConnectError('Invalid zip archive: archive is empty');
+  }
+
+  const centralOffset = archive.readUInt32LE(endOffset + 16);
+  requireRange(archive, centralOffset, CENTRAL_DIRECTORY_HEADER_SIZE, 'central directory header');
+  if (archive.readUInt32LE(centralOffset) !== CENTRAL_DIRECTORY_SIGNATURE) {
+    throw new GarminConnectError('Invalid zip archive: bad central directory header');
+  }
+  const compressionMethod = archive.readUInt16LE(centralOffset + 10);
+  const compressedSize = archive.readUInt32LE(centralOffset + 20);
+  const nameLength = archive.readUInt16LE(centralOffset + 28);
+  const localOffset = archive.readUInt32LE(centralOffset + 42);
+  requireRange(archive, centralOffset + CENTRAL_DIRECTORY_HEADER_SIZE, nameLength, 'file name');
+  const name = archive.toString(
+    'utf8',
+    centralOffset + CENTRAL_DIRECTORY_HEADER_SIZE,
+    centralOffset + CENTRAL_DIRECTORY_HEADER_SIZE + nameLength
+  );
+
+  requireRange(archive, localOffset, LOCAL_FILE_HEADER_SIZE, 'local file header');
+  if (archive.readUInt32LE(localOffset) !== LOCAL_FILE_HEADER_SIGNATURE) {
+    throw new GarminConnectError('Invalid zip archive: bad local file header');
+  }
+  const dataOffset =
+    localOffset +
+    LOCAL_FILE_HEADER_SIZE +
+    archive.readUInt16LE(localOffset + 26) +
+    archive.readUInt16LE(localOffset + 28);
+  requireRange(archive, dataOffset, compressedSize, 'file data');
+  const compressed = archive.subarray(dataOffset, dataOffset + compressedSize);
+
+  switch (compressionMethod) {
+    case COMPRESSION_STORED: {
+      return { name, data: Buffer.from(compressed) };
+    }
+    case COMPRESSION_DEFLATE: {
+      try {
+        return { name, data: inflateRawSync(compressed) };
+      } catch {
+        throw new GarminConnectError('Invalid zip archive: corrupt deflate data');
+      }
+    }
+    default: {
+      throw new GarminConnectError(`Invalid zip archive: unsupported compression method ${compressionMethod}`);
+    }
+  }
+}
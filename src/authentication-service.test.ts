@@ -0,0 +1,68 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { AuthenticationService, type AuthContext } from './authentication-service';
+import { MfaCodeInvalidError, OAuthTokenError, ValidationError } from './errors';
+import { HttpClient } from './http-client';
+import { GarminUrls } from './urls';
+
+// The MFA retry loop is exercised with a stubbed completeAuthentication, so
+// the curl transport is never used.
+vi.mock('./curl-client', () => ({ CurlClient: class {} }));
+
+const urls = new GarminUrls();
+const context: AuthContext = { mfaRequired: true, cookies: 'cookies' };
+const httpClient = new HttpClient(urls);
+
+function providerOf(...codes: string[]) {
+  return vi.fn(async () => codes.shift() ?? 'no-more-codes');
+}
+
+afterEach(() => vi.restoreAllMocks());
+
+describe('AuthenticationService.completeAuthenticationWithMfaProvider', () => {
+  it('prompts again after a rejected code', async () => {
+    const complete = vi
+      .spyOn(AuthenticationService, 'completeAuthentication')
+      .mockRejectedValueOnce(new MfaCodeInvalidError())
+      .mockResolvedValueOnce(httpClient);
+    const provider = providerOf('111111', '222222');
+
+    await expect(AuthenticationService.completeAuthenticationWithMfaProvider(urls, context, provider, 3)).resolves.toBe(
+      httpClient
+    );
+    expect(provider).toHaveBeenCalledTimes(2);
+    expect(complete.mock.lastCall?.[2]).toBe('222222');
+  });
+
+  it('rethrows the last rejection after maxAttempts codes', async () => {
+    const rejection = new MfaCodeInvalidError();
+    vi.spyOn(AuthenticationService, 'completeAuthentication').mockRejectedValue(rejection);
+    const provider = providerOf('111111', '222222', '333333');
+
+    await expect(AuthenticationService.completeAuthenticationWithMfaProvider(urls, context, provider, 2)).rejects.toBe(
+      rejection
+    );
+    expect(provider).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not re-prompt on other errors', async () => {
+    vi.spyOn(AuthenticationService, 'completeAuthentication').mockRejectedValue(new OAuthTokenError('exchange failed'));
+    const provider = providerOf('111111', '222222');
+
+    await expect(
+      AuthenticationService.completeAuthenticationWithMfaProvider(urls, context, provider, 3)
+    ).rejects.toBeInstanceOf(OAuthTokenError);
+    expect(provider).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects maxAttempts below 1 without prompting', async () => {
+    const complete = vi.spyOn(AuthenticationService, 'completeAuthentication');
+    const provider = providerOf('111111');
+
+    await expect(
+      AuthenticationService.completeAuthenticationWithMfaProvider(urls, context, provider, 0)
+    ).rejects.toBeInstanceOf(ValidationError);
+    expect(provider).not.toHaveBeenCalled();
+    expect(complete).not.toHaveBeenCalled();
+  });
+});
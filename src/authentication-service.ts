@@ -8,9 +8,10 @@
 
 import { parseCsrfToken, parseSsoPostResponse, type SsoPostResult } from './auth-html-parser';
 import { CurlClient } from './curl-client';
-import { InvalidCredentialsError, MfaCodeError, MfaCodeInvalidError } from './errors';
+import { InvalidCredentialsError, MfaCodeError, MfaCodeInvalidError, ValidationError } from './errors';
 import { HttpClient } from './http-client';
 import { exchangeDiToken } from './oauth2-exchanger';
+import type { GarminConnectClientOptions, MfaCodeProvider } from './types';
 import { GarminUrls } from './urls';
 
 // Intermediate state handed from `startAuthentication` to `completeAuthentication`.
@@ -22,6 +23,13 @@ export type AuthContext =
   | { readonly mfaRequired: false; readonly cookies: string; readonly ticket: string }
   | { readonly mfaRequired: true; readonly cookies: string };
 
+// Throws ValidationError unless `maxAttempts` allows at least one MFA code.
+export function validateMfaMaxAttempts(maxAttempts: number): void {
+  if (!Number.isInteger(maxAttempts) || maxAttempts < 1) {
+    throw new ValidationError(`mfaMaxAttempts must be a positive integer, got ${maxAttempts}`);
+  }
+}
+
 export class AuthenticationService {
   // Drives the SSO flow up to (and not including) the OAuth exchange.
   // Returns either a service ticket ready for exchange, or an MFA challenge.
@@ -62,14 +70,45 @@ export class AuthenticationService {
   }
 
   // Completes authentication by turning an AuthContext (plus an optional MFA
-  // code when one is required) into a fully authenticated HttpClient.
-  static async completeAuthentication(urls: GarminUrls, context: AuthContext, mfaCode?: string): Promise<HttpClient> {
+  // code when one is required) into a fully authenticated HttpClient. The new
+  // session is saved to `options.sessionStore` when one is configured.
+  static async completeAuthentication(
+    urls: GarminUrls,
+    context: AuthContext,
+    mfaCode?: string,
+    options?: GarminConnectClientOptions
+  ): Promise<HttpClient> {
     const { ticket } = context.mfaRequired
       ? await AuthenticationService.verifyMfaCode(urls, context.cookies, mfaCode)
       : context;
 
     const { oauth2Token, diClientId } = await exchangeDiToken(urls, ticket);
-    return new HttpClient(urls, { oauth2Token, diClientId });
+    const httpClient = new HttpClient(urls, { oauth2Token, diClientId }, options);
+    await options?.sessionStore?.save(httpClient.getSession());
+    return httpClient;
+  }
+
+  // Completes an MFA-pending authentication by requesting codes from
+  // `provider`. A rejected code (MfaCodeInvalidError) re-prompts until
+  // `maxAttempts` codes have been tried; the last rejection is rethrown.
+  static async completeAuthenticationWithMfaProvider(
+    urls: GarminUrls,
+    context: AuthContext,
+    provider: MfaCodeProvider,
+    maxAttempts: number,
+    options?: GarminConnectClientOptions
+  ): Promise<HttpClient> {
+    validateMfaMaxAttempts(maxAttempts);
+    for (let attempt = 1; ; attempt++) {
+      const mfaCode = await provider();
+      try {
+        return await AuthenticationService.completeAuthentication(urls, context, mfaCode, options);
+      } catch (error) {
+        if (!(error instanceof MfaCodeInvalidError) || attempt >= maxAttempts) {
+          throw error;
+        }
+      }
+    }
   }
 
   // Resumes the SSO session with the user-supplied MFA code. Requires the
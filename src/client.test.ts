@@ -17,9 +17,12 @@ import { config } from 'dotenv';
 import { DateTime } from 'luxon';
 import { beforeAll, describe, expect, it } from 'vitest';
 
+import { getActivityFamily, isRunningActivity } from './activity/activity-family';
+import { PersonalRecordType } from './activity/types/personal-record';
 import { GarminConnectClientImpl } from './client';
-import { InvalidCredentialsError, NotAuthenticatedError } from './errors';
-import type { GarminConnectClient } from './types';
+import { InvalidCredentialsError, NotAuthenticatedError, ValidationError } from './errors';
+import { ActivityFamily, ActivityTypeKey, type GarminConnectClient } from './types';
+import { UnitSystem } from './units';
 
 import { fromSession, login } from './index';
 
@@ -184,6 +187,60 @@ function testGetActivitiesImpl(getClient: () => GarminConnectClient) {
       }
     },
 
+    shouldTagActivitiesWithTheirFamily: async () => {
+      const client = getClient();
+      const activities = await client.getActivities(0, 20);
+
+      for (const activity of activities) {
+        expect([getActivityFamily(activity.activityType.typeKey), ActivityFamily.GENERIC]).toContain(activity.family);
+        if (isRunningActivity(activity)) {
+          expect(typeof activity.distance).toBe('number');
+        }
+      }
+    },
+
+    shouldRetrievePersonalRecords: async () => {
+      const client = getClient();
+      const records = await client.getPersonalRecords();
+
+      expect(Array.isArray(records)).toBe(true);
+      for (const record of records) {
+        if (record.recordType === PersonalRecordType.FASTEST_5K) {
+          expect(record.activityId).toBeDefined();
+        }
+      }
+    },
+
+    shouldRetrieveUnitSystem: async () => {
+      const client = getClient();
+      const system = await client.getUnitSystem();
+
+      expect(Object.values(UnitSystem)).toContain(system);
+    },
+
+    shouldIterateActivitiesAcrossPages: async () => {
+      const client = getClient();
+      const expected = await client.getActivities(0, 5);
+
+      const iterated = [];
+      for await (const activity of client.iterateActivities({ pageSize: 2 })) {
+        iterated.push(activity);
+        if (iterated.length === expected.length) break;
+      }
+
+      expect(iterated.map(activity => activity.activityId)).toEqual(expected.map(activity => activity.activityId));
+    },
+
+    shouldFilterIteratedActivitiesByType: async () => {
+      const client = getClient();
+      const iterated = [];
+      for await (const activity of client.iterateActivities({ activityType: ActivityTypeKey.RUNNING, pageSize: 5 })) {
+        expect(activity.activityType.typeKey).toContain('running');
+        iterated.push(activity);
+        if (iterated.length === 12) break;
+      }
+    },
+
     shouldUseDefaultPaginationValues: async () => {
       const client = getClient();
       const activities = await client.getActivities();
@@ -196,6 +253,72 @@ function testGetActivitiesImpl(getClient: () => GarminConnectClient) {
   };
 }
 
+function testActivityDetailsImpl(getClient: () => GarminConnectClient) {
+  return {
+    shouldDecodeActivityDetails: async () => {
+      const client = getClient();
+      const [activity] = await client.getActivities(0, 1);
+      const details = await client.getActivityDetails(String(activity.activityId), { maxChartSize: 100 });
+
+      expect(details.activityId).toBe(activity.activityId);
+      expect(details.series.timestamp).toBeDefined();
+      expect(details.series.timestamp!.length).toBe(details.measurementCount);
+      for (const series of Object.values(details.metrics)) {
+        expect(series.length).toBe(details.measurementCount);
+      }
+      expect(Array.isArray(details.polyline)).toBe(true);
+    },
+
+    shouldRetrieveSplits: async () => {
+      const client = getClient();
+      const [activity] = await client.getActivities(0, 1);
+      const splits = await client.getActivitySplits(String(activity.activityId));
+      const typedSplits = await client.getActivityTypedSplits(String(activity.activityId));
+
+      expect(splits.activityId).toBe(activity.activityId);
+      expect(Array.isArray(splits.lapDTOs)).toBe(true);
+      if (activity.lapCount !== undefined) {
+        expect(splits.lapDTOs.length).toBe(activity.lapCount);
+      }
+      expect(Array.isArray(typedSplits.splits)).toBe(true);
+    },
+
+    shouldRetrieveTimeInZones: async () => {
+      const client = getClient();
+      const [activity] = await client.getActivities(0, 1);
+      const hrZones = await client.getActivityHrTimeInZones(String(activity.activityId));
+      const powerZones = await client.getActivityPowerTimeInZones(String(activity.activityId));
+
+      expect(Array.isArray(hrZones)).toBe(true);
+      for (const zone of hrZones) {
+        expect(zone.secsInZone).toBeGreaterThanOrEqual(0);
+      }
+      expect(Array.isArray(powerZones)).toBe(true);
+    },
+
+    shouldDownloadOriginalFitFile: async () => {
+      const client = getClient();
+      const [activity] = await client.getActivities(0, 1);
+      const file = await client.downloadActivity(String(activity.activityId), 'fit');
+
+      // FIT files carry the ".FIT" signature at byte offset 8
+      expect(file.toString('ascii', 8, 12)).toBe('.FIT');
+    },
+
+    shouldStreamGpxExport: async () => {
+      const client = getClient();
+      const [activity] = await client.getActivities(0, 1);
+      const stream = await client.downloadActivity(String(activity.activityId), 'gpx', { stream: true });
+
+      const chunks: Buffer[] = [];
+      for await (const chunk of stream) {
+        chunks.push(chunk as Buffer);
+      }
+      expect(Buffer.concat(chunks).toString('utf8')).toContain('<gpx');
+    },
+  };
+}
+
 function testGolfActivitiesImpl(getClient: () => GarminConnectClient) {
   return {
     shouldRetrieveGolfActivities: async () => {
@@ -346,6 +469,88 @@ function testGetSleepStats(getClient: () => GarminConnectClient) {
   };
 }
 
+function testGetDailySummary(getClient: () => GarminConnectClient) {
+  return {
+    shouldRetrieveDailySummary: async () => {
+      const client = getClient();
+      const summary = await client.wellness.getDailySummary();
+      expect(summary).toBeDefined();
+      expect(summary.movement.steps.value).toBeGreaterThanOrEqual(0);
+    },
+
+    shouldRetrieveDailySummariesForRange: async () => {
+      const client = getClient();
+      const summaries = await client.wellness.getDailySummaries(DateTime.now().minus({ days: 2 }), DateTime.now());
+      expect(summaries).toHaveLength(3);
+    },
+
+    shouldRetrieveDailyHeartRate: async () => {
+      const client = getClient();
+      const date = DateTime.now().minus({ days: 1 });
+      const dailyHeartRate = await client.wellness.getDailyHeartRate(date);
+      expect(dailyHeartRate.calendarDate).toBe(date.toISODate());
+      for (const sample of dailyHeartRate.samples) {
+        expect(sample.timestamp.isValid).toBe(true);
+        expect(sample.bpm).toBeGreaterThan(0);
+      }
+    },
+
+    shouldRetrieveDailyStress: async () => {
+      const client = getClient();
+      const dailyStress = await client.wellness.getDailyStress(DateTime.now().minus({ days: 1 }));
+      for (const sample of dailyStress.stress) {
+        expect(sample.stressLevel).toBeGreaterThanOrEqual(0);
+        expect(sample.stressLevel).toBeLessThanOrEqual(100);
+      }
+      for (const sample of dailyStress.bodyBattery) {
+        expect(sample.timestamp.isValid).toBe(true);
+      }
+    },
+
+    shouldRetrieveBodyBatteryEventsForRange: async () => {
+      const client = getClient();
+      const to = DateTime.now().minus({ days: 1 });
+      const from = to.minus({ days: 6 });
+      const events = await client.wellness.getBodyBatteryEvents(from, to);
+      for (const [index, event] of events.entries()) {
+        expect(event.startTime.isValid).toBe(true);
+        expect(event.durationInMillis).toBeGreaterThanOrEqual(0);
+        if (index > 0) {
+          expect(event.startTime.toMillis()).toBeGreaterThanOrEqual(events[index - 1].startTime.toMillis());
+        }
+      }
+    },
+  };
+}
+
+function testGetTrainingStatus(getClient: () => GarminConnectClient) {
+  return {
+    shouldRetrieveTrainingStatus: async () => {
+      const client = getClient();
+      const trainingStatus = await client.training.getTrainingStatus();
+      expect(trainingStatus).toBeDefined();
+    },
+
+    shouldRetrieveWeeklyTrainingStatus: async () => {
+      const client = getClient();
+      const weeklyStatus = await client.training.getWeeklyTrainingStatus(
+        DateTime.utc().minus({ weeks: 4 }),
+        DateTime.utc()
+      );
+      expect(weeklyStatus).toBeDefined();
+    },
+
+    shouldRetrieveHeartRateZones: async () => {
+      const client = getClient();
+      const zones = await client.training.getHeartRateZones();
+      expect(zones.length).toBeGreaterThan(0);
+      for (const zone of zones) {
+        expect(zone.zone2Floor).toBeGreaterThan(zone.zone1Floor);
+      }
+    },
+  };
+}
+
 describe('GarminConnectClient', () => {
   beforeAll(() => {
     // Load .env file from project root
@@ -437,6 +642,30 @@ describe('GarminConnectClient', () => {
         it('should support pagination with start and limit parameters', tests.shouldSupportPagination);
 
         it('should use default pagination values when not specified', tests.shouldUseDefaultPaginationValues);
+
+        it('should tag activities with their family', tests.shouldTagActivitiesWithTheirFamily);
+
+        it("should retrieve the user's unit system", tests.shouldRetrieveUnitSystem);
+
+        it('should retrieve personal records', tests.shouldRetrievePersonalRecords);
+
+        it('should iterate activities across pages', tests.shouldIterateActivitiesAcrossPages);
+
+        it('should filter iterated activities by activity type', tests.shouldFilterIteratedActivitiesByType);
+      });
+
+      describe('getActivityDetails', () => {
+        const tests = testActivityDetailsImpl(() => basicClient!);
+
+        it('should decode metric descriptors into named series', tests.shouldDecodeActivityDetails);
+
+        it('should retrieve laps and typed splits', tests.shouldRetrieveSplits);
+
+        it('should retrieve heart rate and power time in zones', tests.shouldRetrieveTimeInZones);
+
+        it('should download and unzip the original FIT file', tests.shouldDownloadOriginalFitFile);
+
+        it('should stream a GPX export', tests.shouldStreamGpxExport);
       });
 
       describe('golf activities', () => {
@@ -483,6 +712,24 @@ describe('GarminConnectClient', () => {
           it('should retrieve sleep stats', tests.shouldRetrieveSleepStats);
         });
       });
+
+      describe('wellness', () => {
+        describe('getDailySummary', () => {
+          const tests = testGetDailySummary(() => basicClient!);
+          it('should retrieve the daily summary', tests.shouldRetrieveDailySummary);
+          it('should retrieve one daily summary per day in a range', tests.shouldRetrieveDailySummariesForRange);
+          it('should retrieve daily heart rate samples', tests.shouldRetrieveDailyHeartRate);
+          it('should retrieve intraday stress and Body Battery', tests.shouldRetrieveDailyStress);
+          it('should retrieve Body Battery events in a range', tests.shouldRetrieveBodyBatteryEventsForRange);
+        });
+      });
+
+      describe('training', () => {
+        const tests = testGetTrainingStatus(() => basicClient!);
+        it('should retrieve the daily training status', tests.shouldRetrieveTrainingStatus);
+        it('should retrieve the weekly training status', tests.shouldRetrieveWeeklyTrainingStatus);
+        it('should retrieve heart rate zones', tests.shouldRetrieveHeartRateZones);
+      });
     });
   });
 
@@ -496,6 +743,16 @@ describe('GarminConnectClient', () => {
       expect(mfaClient).toBeDefined();
     }); // 10 minute timeout to allow for MFA input
 
+    it('should authenticate in a single call with an MFA code provider (skipped in CI)', async () => {
+      const client = await login({
+        username: GARMIN_MFA_USERNAME!,
+        password: GARMIN_MFA_PASSWORD!,
+        mfaCodeProvider: readMfaCodeFromConsole,
+      });
+      const activities = await client.getActivities(0, 1);
+      expect(Array.isArray(activities)).toBe(true);
+    });
+
     // Run tests with MFA client
     describe('with authenticated MFA client', () => {
       beforeAll(async () => {
@@ -560,6 +817,13 @@ describe('GarminConnectClient', () => {
   });
 
   describe('Unauthenticated client', () => {
+    it('should throw ValidationError when iterating activities with a non-positive pageSize', async () => {
+      const unauthenticatedClient = GarminConnectClientImpl.createUnauthenticated();
+
+      await expect(unauthenticatedClient.iterateActivities({ pageSize: 0 }).next()).rejects.toThrow(ValidationError);
+      await expect(unauthenticatedClient.iterateActivities({ pageSize: -5 }).next()).rejects.toThrow(ValidationError);
+    });
+
     it('should throw NotAuthenticatedError when calling getActivities without authentication', async () => {
       const unauthenticatedClient = GarminConnectClientImpl.createUnauthenticated();
 
@@ -572,6 +836,72 @@ describe('GarminConnectClient', () => {
       await expect(unauthenticatedClient.getActivity('123')).rejects.toThrow(NotAuthenticatedError);
     });
 
+    it('should throw NotAuthenticatedError when calling getActivityDetails without authentication', async () => {
+      const unauthenticatedClient = GarminConnectClientImpl.createUnauthenticated();
+
+      await expect(unauthenticatedClient.getActivityDetails('123')).rejects.toThrow(NotAuthenticatedError);
+    });
+
+    it('should throw NotAuthenticatedError when calling getActivitySplits without authentication', async () => {
+      const unauthenticatedClient = GarminConnectClientImpl.createUnauthenticated();
+
+      await expect(unauthenticatedClient.getActivitySplits('123')).rejects.toThrow(NotAuthenticatedError);
+    });
+
+    it('should throw NotAuthenticatedError when calling getActivityHrTimeInZones without authentication', async () => {
+      const unauthenticatedClient = GarminConnectClientImpl.createUnauthenticated();
+
+      await expect(unauthenticatedClient.getActivityHrTimeInZones('123')).rejects.toThrow(NotAuthenticatedError);
+    });
+
+    it('should throw NotAuthenticatedError when calling downloadActivity without authentication', async () => {
+      const unauthenticatedClient = GarminConnectClientImpl.createUnauthenticated();
+
+      await expect(unauthenticatedClient.downloadActivity('123', 'gpx')).rejects.toThrow(NotAuthenticatedError);
+    });
+
+    it('should throw NotAuthenticatedError when calling uploadActivity without authentication', async () => {
+      const unauthenticatedClient = GarminConnectClientImpl.createUnauthenticated();
+
+      await expect(unauthenticatedClient.uploadActivity(Buffer.from(''), { format: 'fit' })).rejects.toThrow(
+        NotAuthenticatedError
+      );
+    });
+
+    it('should throw NotAuthenticatedError when calling updateActivity without authentication', async () => {
+      const unauthenticatedClient = GarminConnectClientImpl.createUnauthenticated();
+
+      await expect(unauthenticatedClient.updateActivity('123', { name: 'Renamed' })).rejects.toThrow(
+        NotAuthenticatedError
+      );
+    });
+
+    it('should throw NotAuthenticatedError when calling deleteActivity without authentication', async () => {
+      const unauthenticatedClient = GarminConnectClientImpl.createUnauthenticated();
+
+      await expect(unauthenticatedClient.deleteActivity('123')).rejects.toThrow(NotAuthenticatedError);
+    });
+
+    it('should throw NotAuthenticatedError when calling setExerciseSets without authentication', async () => {
+      const unauthenticatedClient = GarminConnectClientImpl.createUnauthenticated();
+
+      await expect(
+        unauthenticatedClient.setExerciseSets('123', [{ category: 'BENCH_PRESS', reps: 10, weight: 60 }])
+      ).rejects.toThrow(NotAuthenticatedError);
+    });
+
+    it('should throw NotAuthenticatedError when calling getUnitSystem without authentication', async () => {
+      const unauthenticatedClient = GarminConnectClientImpl.createUnauthenticated();
+
+      await expect(unauthenticatedClient.getUnitSystem()).rejects.toThrow(NotAuthenticatedError);
+    });
+
+    it('should throw NotAuthenticatedError when calling getPersonalRecords without authentication', async () => {
+      const unauthenticatedClient = GarminConnectClientImpl.createUnauthenticated();
+
+      await expect(unauthenticatedClient.getPersonalRecords()).rejects.toThrow(NotAuthenticatedError);
+    });
+
     it('should throw NotAuthenticatedError when calling getGolfActivities without authentication', async () => {
       const unauthenticatedClient = GarminConnectClientImpl.createUnauthenticated();
 
@@ -599,5 +929,42 @@ describe('GarminConnectClient', () => {
         ).rejects.toThrow(NotAuthenticatedError);
       });
     });
+
+    describe('wellness', () => {
+      it('should throw NotAuthenticatedError when calling getDailySummary without authentication', async () => {
+        const unauthenticatedClient = GarminConnectClientImpl.createUnauthenticated();
+
+        await expect(unauthenticatedClient.wellness.getDailySummary()).rejects.toThrow(NotAuthenticatedError);
+      });
+
+      it('should throw NotAuthenticatedError when calling getDailyHeartRate without authentication', async () => {
+        const unauthenticatedClient = GarminConnectClientImpl.createUnauthenticated();
+
+        await expect(unauthenticatedClient.wellness.getDailyHeartRate()).rejects.toThrow(NotAuthenticatedError);
+      });
+
+      it('should throw NotAuthenticatedError when calling getDailyStress without authentication', async () => {
+        const unauthenticatedClient = GarminConnectClientImpl.createUnauthenticated();
+
+        await expect(unauthenticatedClient.wellness.getDailyStress()).rejects.toThrow(NotAuthenticatedError);
+      });
+
+      it('should throw NotAuthenticatedError when calling getBodyBatteryEvents without authentication', async () => {
+        const unauthenticatedClient = GarminConnectClientImpl.createUnauthenticated();
+        const now = DateTime.now();
+
+        await expect(unauthenticatedClient.wellness.getBodyBatteryEvents(now, now)).rejects.toThrow(
+          NotAuthenticatedError
+        );
+      });
+    });
+
+    describe('training', () => {
+      it('should throw NotAuthenticatedError when calling getTrainingStatus without authentication', async () => {
+        const unauthenticatedClient = GarminConnectClientImpl.createUnauthenticated();
+
+        await expect(unauthenticatedClient.training.getTrainingStatus()).rejects.toThrow(NotAuthenticatedError);
+      });
+    });
   });
 });
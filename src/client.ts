@@ -1,23 +1,87 @@
+import { readFile } from 'node:fs/promises';
+import { basename, extname } from 'node:path';
+import { Readable } from 'node:stream';
+
+import FormData from 'form-data';
 import { z } from 'zod';
 
+import { decodeActivityDetails } from './activity/activity-details';
+import { toActivitySubtype } from './activity/activity-family';
+import { toExerciseSetsRequest, toManualActivityRequest } from './activity/manual-activity';
+import {
+  ActivityDetails,
+  ActivityDetailsOptions,
+  ActivityDetailsResponseSchema,
+} from './activity/types/activity-details';
+import {
+  ACTIVITY_DOWNLOAD_FORMATS,
+  ActivityDownloadFormat,
+  ActivityDownloadOptions,
+} from './activity/types/activity-download';
+import {
+  ActivitySplits,
+  ActivitySplitsSchema,
+  ActivityTypedSplits,
+  ActivityTypedSplitsSchema,
+} from './activity/types/activity-splits';
+import { ActivitySubtype } from './activity/types/activity-subtypes';
+import { ActivityUpdate, ActivityUpdateSchema } from './activity/types/activity-update';
+import {
+  ACTIVITY_UPLOAD_FORMATS,
+  ActivityUploadFormat,
+  ActivityUploadOptions,
+  ActivityUploadResponseSchema,
+} from './activity/types/activity-upload';
+import { ExerciseSet, ExerciseSetSchema, ManualActivity, ManualActivitySchema } from './activity/types/manual-activity';
+import { PersonalRecord, PersonalRecordSchema } from './activity/types/personal-record';
+import { TimeInZoneSchema, TimeInZone } from './activity/types/time-in-zone';
+import { parseUploadCreationDate, resolveUploadResult } from './activity/upload';
+import { extractFirstZipEntry } from './activity/zip';
+import { GarminConnectError, HttpError, UploadTimeoutError, ValidationError } from './errors';
 import { HttpClient } from './http-client';
 import { SleepClientImpl } from './sleep/client';
+import { TrainingClientImpl } from './training/client';
 import type {
-  Activity,
+  ActivityIterationOptions,
   GarminConnectClient,
+  GarminConnectClientOptions,
   GolfActivitiesPage,
   GolfScorecardDetailWithSnapshot,
   GolfRound,
   GolfRoundsPage,
   GarminConnectSleepClient,
+  GarminConnectTrainingClient,
+  GarminConnectWellnessClient,
   PersistedSession,
 } from './types';
 import { ActivitySchema, GolfActivitiesPageSchema, GolfScorecardDetailsResponseSchema } from './types';
+import { UnitSystem } from './units';
 import { GarminUrls } from './urls';
+import { WellnessClientImpl } from './wellness/client';
 
 // Response schema for activities list
 const ActivitiesResponseSchema = z.array(ActivitySchema);
 
+// Response schema for manual activity creation (only the new ID is used)
+const CreatedActivityResponseSchema = z.object({ activityId: z.number() }).passthrough();
+
+const ExerciseSetsSchema = z.array(ExerciseSetSchema);
+
+// Response schema for heart rate and power time in zones
+const TimeInZonesResponseSchema = z.array(TimeInZoneSchema);
+
+// Response schema for the social profile (only the display name is used)
+const SocialProfileResponseSchema = z.object({ displayName: z.string() }).passthrough();
+
+const PersonalRecordsResponseSchema = z.array(PersonalRecordSchema);
+
+// Response schema for user settings (only the unit system is used)
+const UserSettingsResponseSchema = z
+  .object({
+    userData: z.object({ measurementSystem: z.nativeEnum(UnitSystem) }).passthrough(),
+  })
+  .passthrough();
+
 export class GarminConnectClientImpl implements GarminConnectClient {
   private httpClient: HttpClient;
   private urls: GarminUrls;
@@ -27,11 +91,23 @@ export class GarminConnectClientImpl implements GarminConnectClient {
     return this.sleepClient;
   }
 
+  private wellnessClient: GarminConnectWellnessClient;
+  public get wellness() {
+    return this.wellnessClient;
+  }
+
+  private trainingClient: GarminConnectTrainingClient;
+  public get training() {
+    return this.trainingClient;
+  }
+
   private constructor(httpClient: HttpClient, urls: GarminUrls) {
     this.httpClient = httpClient;
     this.urls = urls;
 
     this.sleepClient = new SleepClientImpl(this.httpClient, this.urls);
+    this.wellnessClient = new WellnessClientImpl(this.httpClient, this.urls);
+    this.trainingClient = new TrainingClientImpl(this.httpClient, this.urls);
   }
 
   // Wraps a fully-authenticated HttpClient in a GarminConnectClient.
@@ -47,22 +123,192 @@ export class GarminConnectClientImpl implements GarminConnectClient {
   }
 
   // Creates a client from persisted session data (no network calls)
-  static fromSession(session: PersistedSession): GarminConnectClientImpl {
+  static fromSession(session: PersistedSession, options?: GarminConnectClientOptions): GarminConnectClientImpl {
     const urls = new GarminUrls();
-    const httpClient = new HttpClient(urls, session);
+    const httpClient = new HttpClient(urls, session, options);
     return new GarminConnectClientImpl(httpClient, urls);
   }
 
-  async getActivities(start = 0, limit = 20): Promise<Activity[]> {
+  async getActivities(start = 0, limit = 20): Promise<ActivitySubtype[]> {
     const url = this.urls.ACTIVITY_SEARCH(start, limit);
     const response = await this.httpClient.get<unknown>(url);
-    return ActivitiesResponseSchema.parse(response);
+    return ActivitiesResponseSchema.parse(response).map(activity => toActivitySubtype(activity));
   }
 
-  async getActivity(id: string): Promise<Activity> {
+  async *iterateActivities(options: ActivityIterationOptions = {}): AsyncGenerator<ActivitySubtype, void, undefined> {
+    const { pageSize = 100, ...filters } = options;
+    if (!Number.isInteger(pageSize) || pageSize < 1) {
+      throw new ValidationError(`pageSize must be a positive integer, got ${pageSize}`);
+    }
+    for (let start = 0; ; start += pageSize) {
+      const url = this.urls.ACTIVITY_SEARCH(start, pageSize, filters);
+      const response = await this.httpClient.get<unknown>(url);
+      const page = ActivitiesResponseSchema.parse(response);
+      yield* page.map(activity => toActivitySubtype(activity));
+      // A short page means the server has nothing further to return
+      if (page.length < pageSize) {
+        return;
+      }
+    }
+  }
+
+  async getActivity(id: string): Promise<ActivitySubtype> {
     const url = this.urls.ACTIVITY_DETAIL(id);
     const response = await this.httpClient.get<unknown>(url);
-    return ActivitySchema.parse(response);
+    return toActivitySubtype(ActivitySchema.parse(response));
+  }
+
+  async getActivityDetails(id: string, options: ActivityDetailsOptions = {}): Promise<ActivityDetails> {
+    const url = this.urls.ACTIVITY_DETAILS(id, options.maxChartSize, options.maxPolylineSize);
+    const response = await this.httpClient.get<unknown>(url);
+    return decodeActivityDetails(ActivityDetailsResponseSchema.parse(response));
+  }
+
+  async getActivitySplits(id: string): Promise<ActivitySplits> {
+    const url = this.urls.ACTIVITY_SPLITS(id);
+    const response = await this.httpClient.get<unknown>(url);
+    return ActivitySplitsSchema.parse(response);
+  }
+
+  async getActivityTypedSplits(id: string): Promise<ActivityTypedSplits> {
+    const url = this.urls.ACTIVITY_TYPED_SPLITS(id);
+    const response = await this.httpClient.get<unknown>(url);
+    return ActivityTypedSplitsSchema.parse(response);
+  }
+
+  async getActivityHrTimeInZones(id: string): Promise<TimeInZone[]> {
+    const url = this.urls.ACTIVITY_HR_TIME_IN_ZONES(id);
+    const response = await this.httpClient.get<unknown>(url);
+    return TimeInZonesResponseSchema.parse(response);
+  }
+
+  async getActivityPowerTimeInZones(id: string): Promise<TimeInZone[]> {
+    const url = this.urls.ACTIVITY_POWER_TIME_IN_ZONES(id);
+    const response = await this.httpClient.get<unknown>(url);
+    return TimeInZonesResponseSchema.parse(response);
+  }
+
+  downloadActivity(id: string, format: ActivityDownloadFormat, options?: { stream?: false }): Promise<Buffer>;
+  downloadActivity(id: string, format: ActivityDownloadFormat, options: { stream: true }): Promise<Readable>;
+  downloadActivity(
+    id: string,
+    format: ActivityDownloadFormat,
+    options?: ActivityDownloadOptions
+  ): Promise<Buffer | Readable>;
+  async downloadActivity(
+    id: string,
+    format: ActivityDownloadFormat,
+    options: ActivityDownloadOptions = {}
+  ): Promise<Buffer | Readable> {
+    if (!ACTIVITY_DOWNLOAD_FORMATS.includes(format)) {
+      throw new ValidationError(`Unsupported download format: ${String(format)}`);
+    }
+
+    if (format === 'fit') {
+      // The original file is zipped, and a zip can only be read once its
+      // central directory (at the end) has arrived, so it is always buffered
+      const url = this.urls.ACTIVITY_DOWNLOAD_ORIGINAL(id);
+      const archive = await this.httpClient.get<ArrayBuffer>(url, { responseType: 'arraybuffer' });
+      const { data } = extractFirstZipEntry(Buffer.from(archive));
+      return options.stream ? Readable.from([data]) : data;
+    }
+
+    const url = this.urls.ACTIVITY_EXPORT(id, format);
+    if (options.stream) {
+      return this.httpClient.get<Readable>(url, { responseType: 'stream' });
+    }
+    const response = await this.httpClient.get<ArrayBuffer>(url, { responseType: 'arraybuffer' });
+    return Buffer.from(response);
+  }
+
+  async uploadActivity(file: string | Buffer, options: ActivityUploadOptions = {}): Promise<number> {
+    const { pollIntervalMs = 1000, maxPollAttempts = 30 } = options;
+    const format = options.format ?? (typeof file === 'string' ? extname(file).slice(1).toLowerCase() : undefined);
+    if (!ACTIVITY_UPLOAD_FORMATS.includes(format as ActivityUploadFormat)) {
+      throw new ValidationError(`Unsupported upload format: ${String(format)} (expected fit, gpx or tcx)`);
+    }
+    const uploadFormat = format as ActivityUploadFormat;
+
+    const form = new FormData();
+    const fileName = options.fileName ?? (typeof file === 'string' ? basename(file) : `activity.${uploadFormat}`);
+    form.append('file', typeof file === 'string' ? await readFile(file) : file, { filename: fileName });
+
+    let response: unknown;
+    try {
+      // Sent as a buffer rather than a stream so the body survives a replay after token refresh
+      response = await this.httpClient.post<unknown>(this.urls.ACTIVITY_UPLOAD(uploadFormat), form.getBuffer(), {
+        headers: form.getHeaders(),
+      });
+    } catch (error) {
+      // Garmin answers a duplicate upload with 409 Conflict and the usual import result
+      if (!(error instanceof HttpError) || error.statusCode !== 409) {
+        throw error;
+      }
+      response = error.responseData;
+    }
+
+    let result = ActivityUploadResponseSchema.parse(response).detailedImportResult;
+    const creationDate = result.creationDate ? parseUploadCreationDate(result.creationDate) : undefined;
+    const uploadUuid = result.uploadUuid?.uuid;
+    for (let attempt = 1; ; attempt++) {
+      const activityId = resolveUploadResult(result);
+      if (activityId !== undefined) {
+        return activityId;
+      }
+      if (creationDate === undefined || uploadUuid === undefined) {
+        // Still pending, but without these there is no status to poll
+        throw new GarminConnectError('Unexpected upload response: missing creationDate or uploadUuid');
+      }
+      if (attempt > maxPollAttempts) {
+        throw new UploadTimeoutError();
+      }
+      await new Promise(resolve => setTimeout(resolve, pollIntervalMs));
+      const status = await this.httpClient.get<unknown>(this.urls.ACTIVITY_UPLOAD_STATUS(creationDate, uploadUuid));
+      result = ActivityUploadResponseSchema.parse(status).detailedImportResult;
+    }
+  }
+
+  async updateActivity(id: string, patch: ActivityUpdate): Promise<void> {
+    const parsed = ActivityUpdateSchema.safeParse(patch);
+    if (!parsed.success) {
+      throw new ValidationError(`Invalid activity update: ${parsed.error.message}`);
+    }
+    const { name, description, activityType, privacy } = parsed.data;
+
+    const url = this.urls.ACTIVITY(id);
+    await this.httpClient.put(url, {
+      activityId: Number(id),
+      activityName: name,
+      description,
+      activityTypeDTO: activityType ? { typeKey: activityType } : undefined,
+      accessControlRuleDTO: privacy ? { typeKey: privacy } : undefined,
+    });
+  }
+
+  async deleteActivity(id: string): Promise<void> {
+    const url = this.urls.ACTIVITY(id);
+    await this.httpClient.delete(url);
+  }
+
+  async createManualActivity(activity: ManualActivity): Promise<number> {
+    const parsed = ManualActivitySchema.safeParse(activity);
+    if (!parsed.success) {
+      throw new ValidationError(`Invalid manual activity: ${parsed.error.message}`);
+    }
+
+    const url = this.urls.ACTIVITY_CREATE();
+    const response = await this.httpClient.post<unknown>(url, toManualActivityRequest(parsed.data));
+    return CreatedActivityResponseSchema.parse(response).activityId;
+  }
+
+  async setExerciseSets(activityId: string, sets: ExerciseSet[]): Promise<void> {
+    const parsed = ExerciseSetsSchema.safeParse(sets);
+    if (!parsed.success) {
+      throw new ValidationError(`Invalid exercise sets: ${parsed.error.message}`);
+    }
+
+    const url = this.urls.ACTIVITY_EXERCISE_SETS(activityId);
+    await this.httpClient.put(url, toExerciseSetsRequest(Number(activityId), parsed.data));
   }
 
   async getGolfActivities(page = 1, perPage = 20, locale = 'en'): Promise<GolfActivitiesPage> {
@@ -89,6 +335,22 @@ export class GarminConnectClientImpl implements GarminConnectClient {
     };
   }
 
+  async getPersonalRecords(): Promise<PersonalRecord[]> {
+    // Records are looked up by display name, which only the profile endpoint provides
+    const profile = await this.httpClient.get<unknown>(this.urls.SOCIAL_PROFILE());
+    const { displayName } = SocialProfileResponseSchema.parse(profile);
+
+    const url = this.urls.PERSONAL_RECORDS(displayName);
+    const response = await this.httpClient.get<unknown>(url);
+    return PersonalRecordsResponseSchema.parse(response);
+  }
+
+  async getUnitSystem(): Promise<UnitSystem> {
+    const url = this.urls.USER_SETTINGS();
+    const response = await this.httpClient.get<unknown>(url);
+    return UserSettingsResponseSchema.parse(response).userData.measurementSystem;
+  }
+
   onSessionUpdate(callback: (session: PersistedSession) => void | Promise<void>): void {
     this.httpClient.setSessionUpdateCallback(callback);
   }
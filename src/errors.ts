@@ -66,6 +66,30 @@ export class NotAuthenticatedError extends AuthenticationError {
   }
 }
 
+/**
+ * Thrown when the refresh token has expired or been revoked, so the session
+ * cannot be renewed and the user must log in again
+ */
+export class SessionExpiredError extends AuthenticationError {
+  constructor(message: string = 'Session has expired; log in again to continue') {
+    super(message);
+    this.name = 'SessionExpiredError';
+    Object.setPrototypeOf(this, SessionExpiredError.prototype);
+  }
+}
+
+/**
+ * Thrown when an encrypted session cannot be decrypted: the passphrase is
+ * wrong, the blob was tampered with, or its format is not recognized
+ */
+export class SessionDecryptionError extends GarminConnectError {
+  constructor(message: string = 'Failed to decrypt session: wrong passphrase or tampered data') {
+    super(message);
+    this.name = 'SessionDecryptionError';
+    Object.setPrototypeOf(this, SessionDecryptionError.prototype);
+  }
+}
+
 /**
  * Base class for MFA-related errors
  */
@@ -110,6 +134,29 @@ export class MfaCodeInvalidError extends MfaError {
   }
 }
 
+/**
+ * Thrown when a pending MFA login has passed its expiry and must be restarted
+ */
+export class MfaPendingExpiredError extends MfaError {
+  constructor(message: string = 'MFA login has expired - please log in again') {
+    super(message);
+    this.name = 'MfaPendingExpiredError';
+    Object.setPrototypeOf(this, MfaPendingExpiredError.prototype);
+  }
+}
+
+/**
+ * Thrown when a pending MFA login is malformed, from an unsupported format
+ * version, or fails signature verification
+ */
+export class MfaPendingInvalidError extends MfaError {
+  constructor(message: string = 'MFA pending state is invalid') {
+    super(message);
+    this.name = 'MfaPendingInvalidError';
+    Object.setPrototypeOf(this, MfaPendingInvalidError.prototype);
+  }
+}
+
 /**
  * Base class for OAuth-related errors
  */
@@ -165,6 +212,58 @@ export class NotImplementedError extends ClientError {
   }
 }
 
+/**
+ * Thrown when caller-supplied input fails validation before a request is sent
+ */
+export class ValidationError extends GarminConnectError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ValidationError';
+    Object.setPrototypeOf(this, ValidationError.prototype);
+  }
+}
+
+/**
+ * Thrown when an uploaded activity file has already been imported; carries the
+ * ID of the existing activity when Garmin reports it
+ */
+export class DuplicateActivityError extends GarminConnectError {
+  public readonly activityId?: number;
+
+  constructor(message: string = 'Activity has already been uploaded', activityId?: number) {
+    super(message);
+    this.name = 'DuplicateActivityError';
+    this.activityId = activityId;
+    Object.setPrototypeOf(this, DuplicateActivityError.prototype);
+  }
+}
+
+/**
+ * Thrown when Garmin rejects an uploaded activity file, e.g. because it is
+ * corrupt or not a supported format; carries Garmin's failure messages
+ */
+export class UploadRejectedError extends GarminConnectError {
+  public readonly messages: string[];
+
+  constructor(message: string = 'Activity upload was rejected', messages: string[] = []) {
+    super(message);
+    this.name = 'UploadRejectedError';
+    this.messages = messages;
+    Object.setPrototypeOf(this, UploadRejectedError.prototype);
+  }
+}
+
+/**
+ * Thrown when an uploaded activity is still processing after the last status poll
+ */
+export class UploadTimeoutError extends GarminConnectError {
+  constructor(message: string = 'Activity upload did not finish processing in time') {
+    super(message);
+    this.name = 'UploadTimeoutError';
+    Object.setPrototypeOf(this, UploadTimeoutError.prototype);
+  }
+}
+
 /**
  * Thrown for HTTP-related errors
  */
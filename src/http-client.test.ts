@@ -0,0 +1,181 @@
+import nock from 'nock';
+import { afterEach, describe, expect, it } from 'vitest';
+
+import { HttpError, SessionExpiredError } from './errors';
+import { HttpClient } from './http-client';
+import { MemorySessionStore } from './session-store';
+import type { OAuth2Token, PersistedSession, RetryContext } from './types';
+import { GarminUrls } from './urls';
+
+const urls = new GarminUrls();
+const API_PATH = '/activitylist-service/activities/1';
+const API_URL = `${urls.CONNECT_API}${API_PATH}`;
+
+const diAuthUrl = new URL(urls.DIAUTH_TOKEN_URL());
+
+function session(expiresInSeconds: number): PersistedSession {
+  const now = Math.floor(Date.now() / 1000);
+  const oauth2Token: OAuth2Token = {
+    access_token: 'old-token',
+    token_type: 'Bearer',
+    expires_in: 3600,
+    refresh_token: 'rt-123',
+    refresh_token_expires_in: 7200,
+    expires_at: now + expiresInSeconds,
+    refresh_token_expires_at: now + 7200,
+  };
+  return { oauth2Token, diClientId: 'client-id' };
+}
+
+function mockRefresh(accessToken = 'new-token') {
+  return nock(diAuthUrl.origin).post(diAuthUrl.pathname).reply(200, {
+    access_token: accessToken,
+    token_type: 'Bearer',
+    expires_in: 3600,
+    refresh_token: 'rt-456',
+    refresh_token_expires_in: 7200,
+  });
+}
+
+afterEach(() => nock.cleanAll());
+
+describe('HttpClient retries', () => {
+  it('retries a transient 503 and returns the eventual response', async () => {
+    nock(urls.CONNECT_API).get(API_PATH).reply(503, {});
+    nock(urls.CONNECT_API).get(API_PATH).reply(200, { ok: true });
+    const retries: RetryContext[] = [];
+    const client = new HttpClient(urls, undefined, {
+      retry: { baseDelayMs: 1, onRetry: context => void retries.push(context) },
+    });
+
+    await expect(client.get(API_URL)).resolves.toEqual({ ok: true });
+    expect(retries).toHaveLength(1);
+    expect(retries[0]).toMatchObject({ attempt: 1, method: 'GET', url: API_URL });
+    expect(retries[0].error).toBeInstanceOf(HttpError);
+  });
+
+  it('waits for the Retry-After header on 429', async () => {
+    nock(urls.CONNECT_API).get(API_PATH).reply(429, {}, { 'Retry-After': '1' });
+    nock(urls.CONNECT_API).get(API_PATH).reply(200, { ok: true });
+    const delays: number[] = [];
+    const client = new HttpClient(urls, undefined, {
+      retry: { baseDelayMs: 1, onRetry: ({ delayMs }) => void delays.push(delayMs) },
+    });
+
+    await expect(client.get(API_URL)).resolves.toEqual({ ok: true });
+    expect(delays).toEqual([1000]);
+  });
+
+  it('gives up after maxAttempts and throws HttpError', async () => {
+    const scope = nock(urls.CONNECT_API).get(API_PATH).times(2).reply(502, {});
+    const client = new HttpClient(urls, undefined, { retry: { maxAttempts: 2, baseDelayMs: 1 } });
+
+    await expect(client.get(API_URL)).rejects.toMatchObject({ name: 'HttpError', statusCode: 502 });
+    expect(scope.isDone()).toBe(true);
+  });
+
+  it('does not replay non-idempotent POST requests', async () => {
+    nock(urls.CONNECT_API).post(API_PATH).reply(503, {});
+    const client = new HttpClient(urls, undefined, { retry: { baseDelayMs: 1 } });
+
+    await expect(client.post(API_URL, {})).rejects.toBeInstanceOf(HttpError);
+  });
+
+  it('treats delete() as DELETE despite the POST method override', async () => {
+    nock(urls.CONNECT_API).post(API_PATH).reply(503, {});
+    nock(urls.CONNECT_API).post(API_PATH).reply(204);
+    const client = new HttpClient(urls, undefined, { retry: { baseDelayMs: 1 } });
+
+    await expect(client.delete(API_URL)).resolves.toBe('');
+  });
+
+  it('does not retry when retries are disabled', async () => {
+    nock(urls.CONNECT_API).get(API_PATH).reply(503, {});
+    const client = new HttpClient(urls, undefined, { retry: false });
+
+    await expect(client.get(API_URL)).rejects.toBeInstanceOf(HttpError);
+  });
+});
+
+describe('HttpClient proactive token refresh', () => {
+  it('refreshes a token that expires within the skew before sending the request', async () => {
+    const refresh = mockRefresh();
+    nock(urls.CONNECT_API).get(API_PATH).matchHeader('authorization', 'Bearer new-token').reply(200, { ok: true });
+    const client = new HttpClient(urls, session(30));
+
+    await expect(client.get(API_URL)).resolves.toEqual({ ok: true });
+    expect(refresh.isDone()).toBe(true);
+    expect(client.getSession().oauth2Token.access_token).toBe('new-token');
+  });
+
+  it('shares a single refresh between concurrent requests', async () => {
+    const refresh = mockRefresh();
+    nock(urls.CONNECT_API)
+      .get(API_PATH)
+      .times(2)
+      .matchHeader('authorization', 'Bearer new-token')
+      .reply(200, { ok: true });
+    const client = new HttpClient(urls, session(-10));
+
+    await Promise.all([client.get(API_URL), client.get(API_URL)]);
+    expect(refresh.isDone()).toBe(true);
+  });
+
+  it('saves the refreshed session to the configured session store', async () => {
+    mockRefresh();
+    nock(urls.CONNECT_API).get(API_PATH).reply(200, { ok: true });
+    const sessionStore = new MemorySessionStore();
+    const client = new HttpClient(urls, session(30), { sessionStore });
+
+    await client.get(API_URL);
+    const saved = await sessionStore.load();
+    expect(saved?.oauth2Token.access_token).toBe('new-token');
+  });
+
+  it('keeps a token that is not close to expiry', async () => {
+    const refresh = mockRefresh();
+    nock(urls.CONNECT_API).get(API_PATH).matchHeader('authorization', 'Bearer old-token').reply(200, { ok: true });
+    const client = new HttpClient(urls, session(3600));
+
+    await expect(client.get(API_URL)).resolves.toEqual({ ok: true });
+    expect(refresh.isDone()).toBe(false);
+  });
+});
+
+describe('HttpClient session expiry', () => {
+  it('throws SessionExpiredError without calling diauth when the refresh token has expired', async () => {
+    const refresh = mockRefresh();
+    const expired = session(-10);
+    expired.oauth2Token.refresh_token_expires_at = Math.floor(Date.now() / 1000) - 1;
+    const client = new HttpClient(urls, expired);
+
+    await expect(client.get(API_URL)).rejects.toBeInstanceOf(SessionExpiredError);
+    expect(refresh.isDone()).toBe(false);
+  });
+
+  it('throws SessionExpiredError when diauth rejects the refresh token', async () => {
+    nock(diAuthUrl.origin).post(diAuthUrl.pathname).reply(400, { error: 'invalid_grant' });
+    nock(urls.CONNECT_API).get(API_PATH).reply(401, {});
+    const client = new HttpClient(urls, session(3600));
+
+    await expect(client.get(API_URL)).rejects.toBeInstanceOf(SessionExpiredError);
+  });
+
+  it('throws HttpError when diauth is unavailable', async () => {
+    nock(diAuthUrl.origin).post(diAuthUrl.pathname).reply(503, {});
+    const client = new HttpClient(urls, session(-10));
+
+    const error = await client.get(API_URL).catch((error_: unknown) => error_);
+    expect(error).toBeInstanceOf(HttpError);
+    expect(error).not.toBeInstanceOf(SessionExpiredError);
+  });
+
+  it('keeps using a token that has not expired yet when diauth is unavailable', async () => {
+    nock(diAuthUrl.origin).post(diAuthUrl.pathname).reply(503, {});
+    nock(urls.CONNECT_API).get(API_PATH).matchHeader('authorization', 'Bearer old-token').reply(200, { ok: true });
+    const client = new HttpClient(urls, session(30));
+
+    await expect(client.get(API_URL)).resolves.toEqual({ ok: true });
+    expect(client.getSession().oauth2Token.access_token).toBe('old-token');
+  });
+});
@@ -2,16 +2,18 @@
 //
 // Handles token management and HTTP requests. This class:
 // - Manages OAuth token storage and lifecycle
-// - Automatically refreshes expired tokens
+// - Automatically refreshes tokens that are about to expire, or that failed with 401
+// - Retries transient failures (429, 5xx) according to a RetryPolicy
 // - Makes authenticated HTTP requests to the Garmin Connect API
 //
 import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
 import { wrapper } from 'axios-cookiejar-support';
 import { CookieJar } from 'tough-cookie';
 
-import { HttpError, NotAuthenticatedError, OAuthTokenError } from './errors';
+import { HttpError, NotAuthenticatedError, OAuthTokenError, SessionExpiredError } from './errors';
 import { refreshDiToken } from './oauth2-exchanger';
-import type { OAuth2Token, PersistedSession } from './types';
+import { computeRetryDelay, isRetryable, parseRetryAfter, resolveRetryPolicy, type ResolvedRetryPolicy } from './retry';
+import type { GarminConnectClientOptions, OAuth2Token, PersistedSession, SessionStore } from './types';
 import { GarminUrls } from './urls';
 
 interface AuthState {
@@ -19,6 +21,14 @@ interface AuthState {
   diClientId: string;
 }
 
+const DEFAULT_TOKEN_REFRESH_SKEW_SECONDS = 60;
+
+// OAuth2 error codes diauth returns when the refresh token itself is no longer valid
+const SESSION_EXPIRED_OAUTH_ERRORS = new Set(['invalid_grant', 'invalid_token']);
+
+// Per-request bookkeeping carried on the axios config across replays
+type TrackedRequestConfig = InternalAxiosRequestConfig & { _retry?: boolean; _retryCount?: number };
+
 export class HttpClient {
   private client: AxiosInstance;
   // Present only when authenticated; groups the two fields that are always set together
@@ -32,9 +42,18 @@ export class HttpClient {
   private refreshPromise?: Promise<string>;
   // Called (and awaited) after every automatic token refresh so the consumer can re-persist the session
   private onSessionUpdate?: (session: PersistedSession) => void | Promise<void>;
+  // Retry policy for transient failures, with defaults filled in
+  private retryPolicy: ResolvedRetryPolicy;
+  // Refresh proactively when the access token expires within this many seconds
+  private tokenRefreshSkewSeconds: number;
+  // Optional store that receives the session after every automatic token refresh
+  private sessionStore?: SessionStore;
 
-  constructor(urls: GarminUrls, session?: PersistedSession) {
+  constructor(urls: GarminUrls, session?: PersistedSession, options: GarminConnectClientOptions = {}) {
     this.urls = urls;
+    this.retryPolicy = resolveRetryPolicy(options.retry);
+    this.tokenRefreshSkewSeconds = options.tokenRefreshSkewSeconds ?? DEFAULT_TOKEN_REFRESH_SKEW_SECONDS;
+    this.sessionStore = options.sessionStore;
     this.cookieJar = session?.cookies ? CookieJar.fromJSON(session.cookies) : new CookieJar();
     if (session) {
       this.auth = { oauth2Token: session.oauth2Token, diClientId: session.diClientId };
@@ -70,13 +89,14 @@ export class HttpClient {
   private setupInterceptors(): void {
     // Response interceptor: automatically refreshes expired tokens
     // When a request fails with 401 (Unauthorized), the token is refreshed
-    // and the original request is retried transparently
+    // and the original request is retried transparently. Transient failures
+    // (429, 5xx, dropped connections) are replayed per the retry policy.
     this.client.interceptors.response.use(
       response => response,
       async error => {
         // Convert axios errors to HttpError immediately to ensure serializability
         if (axios.isAxiosError(error)) {
-          const originalRequest = error.config as InternalAxiosRequestConfig & { _retry?: boolean };
+          const originalRequest = error.config as TrackedRequestConfig | undefined;
           const status = error.response?.status;
           const statusText = error.response?.statusText;
           const data = error.response?.data;
@@ -89,6 +109,15 @@ export class HttpClient {
             return this.client(originalRequest);
           }
 
+          const httpError = new HttpError(`HTTP request failed: ${error.message}`, status, statusText, data);
+          if (
+            originalRequest &&
+            !axios.isCancel(error) &&
+            (await this.prepareRetry(originalRequest, httpError, error.response?.headers))
+          ) {
+            return this.client(originalRequest);
+          }
+
           // Map 403 Forbidden to NotAuthenticatedError (Garmin uses 403 for unauthenticated requests)
           if (status === 403) {
             throw new NotAuthenticatedError(`Request failed: ${error.message}`);
@@ -105,7 +134,7 @@ export class HttpClient {
             throw new NotAuthenticatedError(`Request failed: ${error.message}`);
           }
 
-          throw new HttpError(`HTTP request failed: ${error.message}`, status, statusText, data);
+          throw httpError;
         }
 
         throw error;
@@ -113,15 +142,67 @@ export class HttpClient {
     );
 
     // Request interceptor: automatically adds Bearer token to all requests
-    // Ensures all API calls are authenticated without manual token management
+    // Ensures all API calls are authenticated without manual token management.
+    // A token that is about to expire is refreshed first, so the request is not
+    // wasted on a 401 (and non-idempotent bodies are not replayed). The refresh
+    // is best-effort: if diauth fails while the current token has not yet
+    // expired, the request goes out with that token.
     this.client.interceptors.request.use(async config => {
       if (this.auth) {
+        if (this.isAccessTokenExpiring()) {
+          try {
+            await this.refreshToken();
+          } catch (error) {
+            if (error instanceof SessionExpiredError || this.isAccessTokenExpired()) {
+              throw error;
+            }
+          }
+        }
         config.headers.Authorization = `Bearer ${this.auth.oauth2Token.access_token}`;
       }
       return config;
     });
   }
 
+  // True when the access token's `expires_at` falls within the refresh skew.
+  // Tokens without an expiry timestamp are only refreshed reactively on 401.
+  private isAccessTokenExpiring(): boolean {
+    const expiresAt = this.auth?.oauth2Token.expires_at;
+    if (expiresAt === undefined || this.tokenRefreshSkewSeconds <= 0) {
+      return false;
+    }
+    return Date.now() / 1000 >= expiresAt - this.tokenRefreshSkewSeconds;
+  }
+
+  // True once the access token's `expires_at` has passed.
+  private isAccessTokenExpired(): boolean {
+    const expiresAt = this.auth?.oauth2Token.expires_at;
+    return expiresAt !== undefined && Date.now() / 1000 >= expiresAt;
+  }
+
+  // Decides whether a failed request should be replayed. When it should,
+  // bumps the attempt counter, notifies `onRetry`, waits out the backoff and
+  // returns true; the caller then re-issues the request.
+  private async prepareRetry(
+    request: TrackedRequestConfig,
+    error: HttpError,
+    headers?: Record<string, unknown>
+  ): Promise<boolean> {
+    // HttpClient.delete() sends a POST with a method override; judge idempotency by the effective method.
+    const override = request.headers?.['X-Http-Method-Override'];
+    const method = typeof override === 'string' ? override : (request.method ?? 'GET');
+    const attempt = (request._retryCount ?? 0) + 1;
+    if (attempt >= this.retryPolicy.maxAttempts || !isRetryable(this.retryPolicy, method, error.statusCode)) {
+      return false;
+    }
+
+    const delayMs = computeRetryDelay(this.retryPolicy, attempt, parseRetryAfter(headers?.['retry-after']));
+    request._retryCount = attempt;
+    await this.retryPolicy.onRetry?.({ attempt, delayMs, method: method.toUpperCase(), url: request.url, error });
+    await new Promise(resolve => setTimeout(resolve, delayMs));
+    return true;
+  }
+
   // Refreshes the OAuth2 token via the device-identity endpoint using the stored client ID.
   //
   // Uses promise sharing to prevent concurrent refresh attempts — if a refresh
@@ -136,12 +217,22 @@ export class HttpClient {
     }
 
     const { oauth2Token, diClientId } = this.auth;
+    // No point asking diauth when we already know the refresh token is dead
+    if (
+      oauth2Token.refresh_token_expires_at !== undefined &&
+      Date.now() / 1000 >= oauth2Token.refresh_token_expires_at
+    ) {
+      throw new SessionExpiredError('Refresh token has expired; log in again to continue');
+    }
+
     this.isRefreshing = true;
     this.refreshPromise = (async () => {
       try {
-        const newToken = await refreshDiToken(this.urls, oauth2Token.refresh_token, diClientId);
+        const newToken = await HttpClient.requestTokenRefresh(this.urls, oauth2Token.refresh_token, diClientId);
         this.auth = { oauth2Token: newToken, diClientId };
-        await this.onSessionUpdate?.(this.getSession());
+        const session = this.getSession();
+        await this.sessionStore?.save(session);
+        await this.onSessionUpdate?.(session);
         return newToken.access_token;
       } finally {
         this.isRefreshing = false;
@@ -152,6 +243,35 @@ export class HttpClient {
     return this.refreshPromise;
   }
 
+  // Calls diauth to refresh the token, translating failures into library errors:
+  // an expired or revoked refresh token becomes SessionExpiredError, anything
+  // else (network failure, 5xx) becomes HttpError.
+  private static async requestTokenRefresh(
+    urls: GarminUrls,
+    refreshToken: string,
+    diClientId: string
+  ): Promise<OAuth2Token> {
+    try {
+      return await refreshDiToken(urls, refreshToken, diClientId);
+    } catch (error) {
+      if (!axios.isAxiosError(error)) {
+        throw error;
+      }
+      const data: unknown = error.response?.data;
+      const oauthError =
+        data && typeof data === 'object' && 'error' in data && typeof data.error === 'string' ? data.error : undefined;
+      if (oauthError && SESSION_EXPIRED_OAUTH_ERRORS.has(oauthError)) {
+        throw new SessionExpiredError(`Refresh token was rejected (${oauthError}); log in again to continue`);
+      }
+      throw new HttpError(
+        `Token refresh failed: ${error.message}`,
+        error.response?.status,
+        error.response?.statusText,
+        data
+      );
+    }
+  }
+
   // Performs an HTTP GET request
   // The Bearer token is automatically added via the request interceptor
   // Throws HttpError if the request fails
@@ -1,5 +1,7 @@
 export type {
   Activity,
+  ActivityIterationOptions,
+  ActivitySearchFilters,
   ActivityType,
   AcuteTrainingLoadDTO,
   BodyBattery,
@@ -27,6 +29,10 @@ export type {
   GolfRoundsPage,
   GarminConnectClient,
   GarminConnectClientConfig,
+  GarminConnectClientOptions,
+  GarminConnectTrainingClient,
+  GarminConnectWellnessClient,
+  MfaCodeProvider,
   PersistedSession,
   HeartRate,
   HeartRateZoneScalar,
@@ -37,6 +43,9 @@ export type {
   PulseOx,
   RecordedDevice,
   Respiration,
+  RetryContext,
+  RetryPolicy,
+  SessionStore,
   Steps,
   Stress,
   TrainingStatusData,
@@ -47,6 +56,7 @@ export type {
 } from './types';
 
 export {
+  ActivityFamily,
   ActivityTypeKey,
   EventTypeKey,
   PrivacyTypeKey,
@@ -112,40 +122,80 @@ export {
   AuthenticationError,
   ClientError,
   CsrfTokenError,
+  DuplicateActivityError,
   GarminConnectError,
   HttpError,
   InvalidCredentialsError,
   MfaCodeError,
   MfaCodeInvalidError,
   MfaError,
+  MfaPendingExpiredError,
+  MfaPendingInvalidError,
   MfaRequiredError,
   NotAuthenticatedError,
   NotImplementedError,
   OAuthError,
   OAuthIdentityError,
   OAuthTokenError,
+  SessionDecryptionError,
+  SessionExpiredError,
+  UploadRejectedError,
+  UploadTimeoutError,
+  ValidationError,
 } from './errors';
 
+// Session persistence
+export { decryptSession, encryptSession } from './session-crypto';
+export { FileSessionStore, MemorySessionStore } from './session-store';
+
+// Pending MFA logins
+export { MFA_PENDING_TTL_MS, MFA_PENDING_VERSION } from './mfa-pending';
+export type { MfaPending } from './mfa-pending';
+
+// Authenticator-app MFA
+export { createTotpCodeProvider, generateTotp } from './totp';
+export type { TotpOptions } from './totp';
+
+// Activity details
+export * from './activity';
+
+// Unit conversion and formatting
+export * from './units';
+
 // Sleep service
 export * from './sleep';
 
-import { AuthenticationService } from './authentication-service';
+// Wellness service
+export * from './wellness';
+
+// Training service
+export * from './training';
+
+import { AuthenticationService, validateMfaMaxAttempts } from './authentication-service';
 import { GarminConnectClientImpl } from './client';
-import type { GarminConnectClient, GarminConnectClientConfig, PersistedSession } from './types';
+import { createMfaPending, verifyMfaPending, type MfaPending } from './mfa-pending';
+import { createTotpCodeProvider } from './totp';
+import type {
+  GarminConnectClient,
+  GarminConnectClientConfig,
+  GarminConnectClientOptions,
+  MfaCodeProvider,
+  PersistedSession,
+} from './types';
 import { GarminUrls } from './urls';
 
+const DEFAULT_MFA_MAX_ATTEMPTS = 3;
+// The current time step's code, then one retry with the next step's code
+const TOTP_MAX_ATTEMPTS = 2;
+
 // Result of the initial `login(config)` call. Either the login completed
 // (credentials accepted, OAuth exchange done) or the account requires an MFA
 // code to finish — in which case the caller passes the `MfaPending` value
-// back into `login(pending, code)` to resume.
+// back into `login(pending, code)` to resume (see src/mfa-pending.ts).
 export interface LoginSuccess {
   readonly mfaRequired: false;
   readonly client: GarminConnectClient;
 }
-export interface MfaPending {
-  readonly mfaRequired: true;
-  readonly cookies: string;
-}
 export type LoginResult = LoginSuccess | MfaPending;
 
 function isMfaPending(value: GarminConnectClientConfig | MfaPending): value is MfaPending {
@@ -163,35 +213,80 @@ function isMfaPending(value: GarminConnectClientConfig | MfaPending): value is M
 //   }
 //
 // Call 2 — resume an MFA-pending login: pass the `MfaPending` value returned
-// by call 1 together with the MFA code. Throws `MfaCodeInvalidError` on a bad
-// code, `InvalidCredentialsError` on any other signin failure.
+// by call 1 together with the MFA code (and the same client options, if any,
+// since the pending value does not carry them). Throws `MfaPendingExpiredError`
+// or `MfaPendingInvalidError` before contacting SSO when the pending value is
+// stale or fails verification, `MfaCodeInvalidError` on a bad code, and
+// `InvalidCredentialsError` on any other signin failure.
+//
+// Single call — with an `mfaCodeProvider` in the config, login() asks the
+// provider for a code when MFA is required (re-prompting up to
+// `mfaMaxAttempts` times on `MfaCodeInvalidError`) and resolves to a client:
+//   const client = await login({ username, password, mfaCodeProvider: promptMfaCode });
+//
+// With a `totpSecret` instead, login() generates the authenticator code itself
+// and, if it is rejected, retries once with the code for the next time step.
+export function login(
+  config: GarminConnectClientConfig & ({ mfaCodeProvider: MfaCodeProvider } | { totpSecret: string })
+): Promise<GarminConnectClient>;
 export function login(config: GarminConnectClientConfig): Promise<LoginResult>;
-export function login(pending: MfaPending, mfaCode: string): Promise<GarminConnectClient>;
+export function login(
+  pending: MfaPending,
+  mfaCode: string,
+  options?: GarminConnectClientOptions
+): Promise<GarminConnectClient>;
 export async function login(
   configOrPending: GarminConnectClientConfig | MfaPending,
-  mfaCode?: string
+  mfaCode?: string,
+  options?: GarminConnectClientOptions
 ): Promise<LoginResult | GarminConnectClient> {
   const urls = new GarminUrls();
 
   if (isMfaPending(configOrPending)) {
-    const httpClient = await AuthenticationService.completeAuthentication(urls, configOrPending, mfaCode);
+    verifyMfaPending(configOrPending, options?.mfaPendingSigningKey);
+    const httpClient = await AuthenticationService.completeAuthentication(urls, configOrPending, mfaCode, options);
+    return GarminConnectClientImpl.fromHttpClient(httpClient, urls);
+  }
+
+  const {
+    username,
+    password,
+    totpSecret,
+    mfaPendingSigningKey,
+    mfaCodeProvider: configuredProvider,
+    mfaMaxAttempts: configuredMaxAttempts,
+  } = configOrPending;
+  const mfaCodeProvider = configuredProvider ?? (totpSecret ? createTotpCodeProvider(totpSecret) : undefined);
+  const mfaMaxAttempts = configuredMaxAttempts ?? (configuredProvider ? DEFAULT_MFA_MAX_ATTEMPTS : TOTP_MAX_ATTEMPTS);
+  // Reject a bad attempt count before any credentials are sent
+  if (mfaCodeProvider) {
+    validateMfaMaxAttempts(mfaMaxAttempts);
+  }
+
+  const context = await AuthenticationService.startAuthentication(urls, username, password);
+
+  if (mfaCodeProvider) {
+    const httpClient = context.mfaRequired
+      ? await AuthenticationService.completeAuthenticationWithMfaProvider(
+          urls,
+          context,
+          mfaCodeProvider,
+          mfaMaxAttempts,
+          configOrPending
+        )
+      : await AuthenticationService.completeAuthentication(urls, context, undefined, configOrPending);
     return GarminConnectClientImpl.fromHttpClient(httpClient, urls);
   }
 
-  const context = await AuthenticationService.startAuthentication(
-    urls,
-    configOrPending.username,
-    configOrPending.password
-  );
   if (context.mfaRequired) {
-    return { mfaRequired: true, cookies: context.cookies };
+    return createMfaPending(context.cookies, mfaPendingSigningKey);
   }
-  const httpClient = await AuthenticationService.completeAuthentication(urls, context);
+  const httpClient = await AuthenticationService.completeAuthentication(urls, context, undefined, configOrPending);
   return { mfaRequired: false, client: GarminConnectClientImpl.fromHttpClient(httpClient, urls) };
 }
 
 // Restores a client from a previously-persisted session (no network calls).
 // Use `client.getSession()` to obtain the session after authenticating.
-export function fromSession(session: PersistedSession): GarminConnectClient {
-  return GarminConnectClientImpl.fromSession(session);
+export function fromSession(session: PersistedSession, options?: GarminConnectClientOptions): GarminConnectClient {
+  return GarminConnectClientImpl.fromSession(session, options);
 }
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+
+import { MfaPendingExpiredError, MfaPendingInvalidError } from './errors';
+import { createMfaPending, MFA_PENDING_TTL_MS, verifyMfaPending, type MfaPending } from './mfa-pending';
+
+const NOW = 1_776_300_000_000;
+const KEY = 'pending-signing-key';
+
+describe('createMfaPending', () => {
+  it('stamps version, creation time and expiry', () => {
+    const pending = createMfaPending('cookies', undefined, NOW);
+
+    expect(pending).toEqual({
+      mfaRequired: true,
+      version: 1,
+      cookies: 'cookies',
+      createdAt: NOW,
+      expiresAt: NOW + MFA_PENDING_TTL_MS,
+    });
+  });
+
+  it('signs the pending state when a key is given', () => {
+    expect(createMfaPending('cookies', KEY, NOW).signature).toEqual(expect.any(String));
+  });
+});
+
+describe('verifyMfaPending', () => {
+  it('accepts a fresh, correctly signed value after a JSON round trip', () => {
+    const pending = JSON.parse(JSON.stringify(createMfaPending('cookies', KEY, NOW))) as MfaPending;
+    expect(() => verifyMfaPending(pending, KEY, NOW + 1000)).not.toThrow();
+  });
+
+  it('rejects an expired value', () => {
+    const pending = createMfaPending('cookies', undefined, NOW);
+    expect(() => verifyMfaPending(pending, undefined, NOW + MFA_PENDING_TTL_MS)).toThrow(MfaPendingExpiredError);
+  });
+
+  it('rejects a value whose fields were modified after signing', () => {
+    const pending = createMfaPending('cookies', KEY, NOW);
+    const extended = { ...pending, expiresAt: pending.expiresAt + MFA_PENDING_TTL_MS };
+    expect(() => verifyMfaPending(extended, KEY, NOW)).toThrow(MfaPendingInvalidError);
+    expect(() => verifyMfaPending(pending, 'other-key', NOW)).toThrow(MfaPendingInvalidError);
+  });
+
+  it('requires a signature when a signing key is configured', () => {
+    const pending = createMfaPending('cookies', undefined, NOW);
+    expect(() => verifyMfaPending(pending, KEY, NOW)).toThrow(MfaPendingInvalidError);
+  });
+
+  it('rejects values from another format version', () => {
+    const legacy = { mfaRequired: true, cookies: 'cookies' } as unknown as MfaPending;
+    expect(() => verifyMfaPending(legacy, undefined, NOW)).toThrow(MfaPendingInvalidError);
+  });
+});
@@ -0,0 +1,78 @@
+// The `MfaPending` value returned by `login(config)` when an MFA code is needed.
+//
+// Web apps often receive the code in a later HTTP request, so the pending
+// value may round-trip through a browser cookie or a database. It therefore
+// carries a format version, its creation time, an expiry estimate and an
+// optional HMAC-SHA256 signature. `login(pending, code)` checks all of these
+// before contacting SSO, so stale or forged values fail fast with a typed error.
+
+import * as crypto from 'node:crypto';
+
+import { MfaPendingExpiredError, MfaPendingInvalidError } from './errors';
+
+export const MFA_PENDING_VERSION = 1;
+
+// Garmin does not publish the SSO MFA session lifetime; in practice the
+// cookies stop being accepted after roughly ten minutes.
+export const MFA_PENDING_TTL_MS = 10 * 60 * 1000;
+
+export interface MfaPending {
+  readonly mfaRequired: true;
+  readonly version: typeof MFA_PENDING_VERSION;
+  // Serialized SSO session cookies needed to submit the MFA code
+  readonly cookies: string;
+  // When the MFA challenge was issued (milliseconds since the epoch)
+  readonly createdAt: number;
+  // Estimated time after which Garmin will no longer accept the code
+  readonly expiresAt: number;
+  // HMAC-SHA256 over the fields above, present when a signing key was configured
+  readonly signature?: string;
+}
+
+export function createMfaPending(cookies: string, signingKey?: string | Buffer, now: number = Date.now()): MfaPending {
+  const unsigned = {
+    mfaRequired: true,
+    version: MFA_PENDING_VERSION,
+    cookies,
+    createdAt: now,
+    expiresAt: now + MFA_PENDING_TTL_MS,
+  } as const;
+  return signingKey ? { ...unsigned, signature: sign(unsigned, signingKey) } : unsigned;
+}
+
+// Throws MfaPendingInvalidError when the value is malformed, from another
+// format version, or its signature does not match `signingKey` (a signature
+// is required whenever a key is given). Throws MfaPendingExpiredError when
+// `expiresAt` has passed.
+export function verifyMfaPending(pending: MfaPending, signingKey?: string | Buffer, now: number = Date.now()): void {
+  if (pending.version !== MFA_PENDING_VERSION) {
+    throw new MfaPendingInvalidError(`Unsupported MFA pending version: ${String(pending.version)}`);
+  }
+  if (
+    typeof pending.cookies !== 'string' ||
+    !Number.isFinite(pending.createdAt) ||
+    !Number.isFinite(pending.expiresAt)
+  ) {
+    throw new MfaPendingInvalidError('MFA pending state is malformed');
+  }
+
+  if (signingKey) {
+    if (!pending.signature) {
+      throw new MfaPendingInvalidError('MFA pending state is not signed');
+    }
+    const expected = Buffer.from(sign(pending, signingKey), 'base64url');
+    const actual = Buffer.from(pending.signature, 'base64url');
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+      throw new MfaPendingInvalidError('MFA pending state signature does not match');
+    }
+  }
+
+  if (now >= pending.expiresAt) {
+    throw new MfaPendingExpiredError();
+  }
+}
+
+function sign(pending: Omit<MfaPending, 'signature'>, signingKey: string | Buffer): string {
+  const payload = JSON.stringify([pending.version, pending.createdAt, pending.expiresAt, pending.cookies]);
+  return crypto.createHmac('sha256', signingKey).update(payload).digest('base64url');
+}
@@ -0,0 +1,77 @@
+// Retry policy for transient Garmin Connect API failures.
+//
+// `HttpClient` consults these helpers from its response interceptor to decide
+// whether a failed request (429, 5xx, or a dropped connection) should be
+// replayed, and how long to wait before doing so.
+
+import type { RetryPolicy } from './types';
+
+export type ResolvedRetryPolicy = Required<Omit<RetryPolicy, 'onRetry'>> & Pick<RetryPolicy, 'onRetry'>;
+
+// Methods that are safe to replay without side effects. POST is excluded by
+// default because Garmin does not accept idempotency keys.
+export const DEFAULT_RETRYABLE_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'] as const;
+
+export const DEFAULT_RETRYABLE_STATUS_CODES = [429, 500, 502, 503, 504] as const;
+
+const DEFAULT_RETRY_POLICY: ResolvedRetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 30_000,
+  retryableMethods: [...DEFAULT_RETRYABLE_METHODS],
+  retryableStatusCodes: [...DEFAULT_RETRYABLE_STATUS_CODES],
+};
+
+// Merges a user-supplied policy over the defaults. `false` disables retries
+// entirely (a single attempt per request).
+export function resolveRetryPolicy(policy?: RetryPolicy | false): ResolvedRetryPolicy {
+  if (policy === false) {
+    return { ...DEFAULT_RETRY_POLICY, maxAttempts: 1 };
+  }
+  return {
+    ...DEFAULT_RETRY_POLICY,
+    ...policy,
+    retryableMethods: (policy?.retryableMethods ?? DEFAULT_RETRY_POLICY.retryableMethods).map(method =>
+      method.toUpperCase()
+    ),
+  };
+}
+
+// Returns true when a request that failed with `status` (undefined for
+// network-level failures) may be attempted again under `policy`.
+export function isRetryable(policy: ResolvedRetryPolicy, method: string, status: number | undefined): boolean {
+  if (!policy.retryableMethods.includes(method.toUpperCase())) {
+    return false;
+  }
+  return status === undefined || policy.retryableStatusCodes.includes(status);
+}
+
+// Parses a `Retry-After` header (delta-seconds or HTTP-date) into milliseconds.
+// Returns undefined when the header is absent or unparseable.
+export function parseRetryAfter(value: unknown, now: number = Date.now()): number | undefined {
+  if (typeof value !== 'string' || value.trim() === '') {
+    return undefined;
+  }
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return Number.parseInt(trimmed, 10) * 1000;
+  }
+  const date = Date.parse(trimmed);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+// Computes the delay before retry number `attempt` (1-based). A server-sent
+// `Retry-After` wins; otherwise exponential backoff with equal jitter, so
+// concurrent clients spread out while still waiting at least half the step.
+export function computeRetryDelay(
+  policy: ResolvedRetryPolicy,
+  attempt: number,
+  retryAfterMs?: number,
+  random: () => number = Math.random
+): number {
+  if (retryAfterMs !== undefined) {
+    return Math.min(retryAfterMs, policy.maxDelayMs);
+  }
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(exponential / 2 + random() * (exponential / 2));
+}
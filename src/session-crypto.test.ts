@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+
+import { SessionDecryptionError } from './errors';
+import { decryptSession, encryptSession } from './session-crypto';
+import type { PersistedSession } from './types';
+
+const session: PersistedSession = {
+  cookies: '# Netscape HTTP Cookie File',
+  diClientId: 'client-id',
+  oauth2Token: {
+    access_token: 'access',
+    token_type: 'Bearer',
+    expires_in: 3600,
+    refresh_token: 'refresh',
+    refresh_token_expires_in: 7200,
+  },
+};
+
+function replacePart(blob: string, index: number, replace: (part: string) => string): string {
+  const parts = blob.split(':');
+  parts[index] = replace(parts[index]);
+  return parts.join(':');
+}
+
+describe('encryptSession / decryptSession', () => {
+  it('round-trips a session without exposing tokens in the blob', async () => {
+    const blob = await encryptSession(session, 'correct horse battery staple');
+
+    expect(blob.startsWith('garmin-session:v1:')).toBe(true);
+    expect(blob).not.toContain('refresh');
+    await expect(decryptSession(blob, 'correct horse battery staple')).resolves.toEqual(session);
+  });
+
+  it('uses a fresh salt and IV for every encryption', async () => {
+    const [first, second] = await Promise.all([encryptSession(session, 'key'), encryptSession(session, 'key')]);
+    expect(first).not.toBe(second);
+  });
+
+  it('rejects a wrong passphrase', async () => {
+    const blob = await encryptSession(session, 'right');
+    await expect(decryptSession(blob, 'wrong')).rejects.toBeInstanceOf(SessionDecryptionError);
+  });
+
+  it('rejects a tampered ciphertext', async () => {
+    const blob = await encryptSession(session, 'key');
+    const tampered = replacePart(blob, 4, part => {
+      const bytes = Buffer.from(part, 'base64url');
+      bytes[0] ^= 0x01;
+      return bytes.toString('base64url');
+    });
+    await expect(decryptSession(tampered, 'key')).rejects.toBeInstanceOf(SessionDecryptionError);
+  });
+
+  it('rejects unknown versions and malformed blobs', async () => {
+    const blob = await encryptSession(session, 'key');
+    await expect(
+      decryptSession(
+        replacePart(blob, 1, () => 'v9'),
+        'key'
+      )
+    ).rejects.toThrow(/Unsupported/);
+    await expect(decryptSession('not-a-session', 'key')).rejects.toBeInstanceOf(SessionDecryptionError);
+  });
+});
@@ -0,0 +1,84 @@
+// Passphrase-based encryption for PersistedSession.
+//
+// A session holds live OAuth tokens and SSO cookies, so it should not be
+// stored in plain text. Sessions are encrypted with AES-256-GCM using a key
+// derived from the passphrase with scrypt. The serialized blob is:
+//
+//   garmin-session:v1:<salt>:<iv>:<ciphertext>:<auth tag>
+//
+// with each binary part base64url-encoded. The `garmin-session:v1` prefix is
+// authenticated as additional data, so the version cannot be swapped without
+// failing decryption; any tampering or a wrong passphrase raises
+// SessionDecryptionError.
+
+import * as crypto from 'node:crypto';
+
+import { SessionDecryptionError, ValidationError } from './errors';
+import type { PersistedSession } from './types';
+
+const BLOB_PREFIX = 'garmin-session';
+const BLOB_VERSION = 'v1';
+const HEADER = `${BLOB_PREFIX}:${BLOB_VERSION}`;
+
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+const KEY_BYTES = 32;
+const AUTH_TAG_BYTES = 16;
+// scrypt cost parameters for v1 blobs; changing them requires a new version.
+const SCRYPT_OPTIONS: crypto.ScryptOptions = { N: 2 ** 15, r: 8, p: 1, maxmem: 64 * 1024 * 1024 };
+
+// Encrypts a session with a key derived from `passphrase`. Each call uses a
+// fresh salt and IV, so encrypting the same session twice yields different blobs.
+export async function encryptSession(session: PersistedSession, passphrase: string | Buffer): Promise<string> {
+  const salt = crypto.randomBytes(SALT_BYTES);
+  const iv = crypto.randomBytes(IV_BYTES);
+  const key = await deriveKey(passphrase, salt);
+
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv, { authTagLength: AUTH_TAG_BYTES });
+  cipher.setAAD(Buffer.from(HEADER, 'utf8'));
+  const ciphertext = Buffer.concat([cipher.update(JSON.stringify(session), 'utf8'), cipher.final()]);
+  const authTag = cipher.getAuthTag();
+
+  return [HEADER, salt, iv, ciphertext, authTag]
+    .map(part => (typeof part === 'string' ? part : part.toString('base64url')))
+    .join(':');
+}
+
+// Decrypts a blob produced by `encryptSession`. Throws SessionDecryptionError
+// when the blob is malformed, uses an unsupported version, has been tampered
+// with, or the passphrase is wrong.
+export async function decryptSession(blob: string, passphrase: string | Buffer): Promise<PersistedSession> {
+  const parts = blob.trim().split(':');
+  if (parts.length !== 6 || parts[0] !== BLOB_PREFIX) {
+    throw new SessionDecryptionError('Encrypted session is malformed');
+  }
+  if (parts[1] !== BLOB_VERSION) {
+    throw new SessionDecryptionError(`Unsupported encrypted session version: ${parts[1]}`);
+  }
+
+  const [salt, iv, ciphertext, authTag] = parts.slice(2).map(part => Buffer.from(part, 'base64url'));
+  if (salt.length !== SALT_BYTES || iv.length !== IV_BYTES || authTag.length !== AUTH_TAG_BYTES) {
+    throw new SessionDecryptionError('Encrypted session is malformed');
+  }
+
+  const key = await deriveKey(passphrase, salt);
+  let plaintext: string;
+  try {
+    const decipher = crypto.createDecipheriv('aes-256-gcm', key, iv, { authTagLength: AUTH_TAG_BYTES });
+    decipher.setAAD(Buffer.from(HEADER, 'utf8'));
+    decipher.setAuthTag(authTag);
+    plaintext = Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+  } catch {
+    throw new SessionDecryptionError();
+  }
+  return JSON.parse(plaintext) as PersistedSession;
+}
+
+function deriveKey(passphrase: string | Buffer, salt: Buffer): Promise<Buffer> {
+  if (passphrase.length === 0) {
+    throw new ValidationError('Session encryption passphrase cannot be empty');
+  }
+  return new Promise((resolve, reject) => {
+    crypto.scrypt(passphrase, salt, KEY_BYTES, SCRYPT_OPTIONS, (error, key) => (error ? reject(error) : resolve(key)));
+  });
+}
@@ -0,0 +1,75 @@
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { FileSessionStore, MemorySessionStore } from './session-store';
+import type { PersistedSession } from './types';
+
+const session: PersistedSession = {
+  cookies: '{"cookies":[]}',
+  diClientId: 'client-id',
+  oauth2Token: {
+    access_token: 'access',
+    token_type: 'Bearer',
+    expires_in: 3600,
+    refresh_token: 'refresh',
+    refresh_token_expires_in: 7200,
+  },
+};
+
+describe('MemorySessionStore', () => {
+  it('round-trips a session and clears it', async () => {
+    const store = new MemorySessionStore();
+    expect(await store.load()).toBeUndefined();
+
+    await store.save(session);
+    expect(await store.load()).toEqual(session);
+
+    await store.clear();
+    expect(await store.load()).toBeUndefined();
+  });
+});
+
+describe('FileSessionStore', () => {
+  let directory: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'garmin-session-store-'));
+    filePath = path.join(directory, 'session.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('returns undefined when no session file exists', async () => {
+    expect(await new FileSessionStore(filePath).load()).toBeUndefined();
+  });
+
+  it('saves the session as owner-only JSON without leaving temp files behind', async () => {
+    const store = new FileSessionStore(filePath);
+    await store.save(session);
+
+    expect(await store.load()).toEqual(session);
+    expect(await fs.readdir(directory)).toEqual(['session.json']);
+    if (process.platform !== 'win32') {
+      const stats = await fs.stat(filePath);
+      expect(stats.mode & 0o777).toBe(0o600);
+    }
+  });
+
+  it('overwrites a previous session and clears the file', async () => {
+    const store = new FileSessionStore(filePath);
+    await store.save(session);
+    await store.save({ ...session, diClientId: 'other-client' });
+    const saved = await store.load();
+    expect(saved?.diClientId).toBe('other-client');
+
+    await store.clear();
+    expect(await store.load()).toBeUndefined();
+    await expect(store.clear()).resolves.toBeUndefined();
+  });
+});
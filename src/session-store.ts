@@ -0,0 +1,76 @@
+// Built-in SessionStore implementations.
+//
+// A store lets the client persist its session without consumer plumbing:
+// `login()` saves after authenticating and `HttpClient` saves after every
+// token refresh, so refreshed tokens are never lost between runs.
+
+import * as crypto from 'node:crypto';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+
+import type { PersistedSession, SessionStore } from './types';
+
+// Keeps the session in process memory. Useful for tests and short-lived
+// processes that only need refreshes to be visible to other code paths.
+export class MemorySessionStore implements SessionStore {
+  private session?: PersistedSession;
+
+  constructor(session?: PersistedSession) {
+    this.session = session;
+  }
+
+  async load(): Promise<PersistedSession | undefined> {
+    return this.session;
+  }
+
+  async save(session: PersistedSession): Promise<void> {
+    this.session = session;
+  }
+
+  async clear(): Promise<void> {
+    this.session = undefined;
+  }
+}
+
+// Stores the session as JSON in a single file, readable only by the owner.
+//
+// Writes go to a temp file in the same directory and are then renamed over
+// the target, so a crash mid-write leaves the previous session intact rather
+// than a truncated file.
+export class FileSessionStore implements SessionStore {
+  constructor(private readonly filePath: string) {}
+
+  async load(): Promise<PersistedSession | undefined> {
+    try {
+      const contents = await fs.readFile(this.filePath, 'utf8');
+      return JSON.parse(contents) as PersistedSession;
+    } catch (error) {
+      if (isFileNotFound(error)) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async save(session: PersistedSession): Promise<void> {
+    const temporaryPath = path.join(
+      path.dirname(this.filePath),
+      `.${path.basename(this.filePath)}.${crypto.randomUUID()}.tmp`
+    );
+    try {
+      await fs.writeFile(temporaryPath, JSON.stringify(session), { encoding: 'utf8', mode: 0o600 });
+      await fs.rename(temporaryPath, this.filePath);
+    } catch (error) {
+      await fs.rm(temporaryPath, { force: true });
+      throw error;
+    }
+  }
+
+  async clear(): Promise<void> {
+    await fs.rm(this.filePath, { force: true });
+  }
+}
+
+function isFileNotFound(error: unknown): boolean {
+  return error instanceof Error && 'code' in error && error.code === 'ENOENT';
+}
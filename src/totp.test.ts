@@ -0,0 +1,57 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { ValidationError } from './errors';
+import { createTotpCodeProvider, decodeBase32, generateTotp } from './totp';
+
+// RFC 6238 appendix B test secret ("12345678901234567890") in base32
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('decodeBase32', () => {
+  it('decodes secrets regardless of case, spacing and padding', () => {
+    expect(decodeBase32('gezd gnbv gy3t qojq gezd gnbv gy3t qojq').toString('ascii')).toBe('12345678901234567890');
+    expect(decodeBase32('MZXW6===').toString('ascii')).toBe('foo');
+  });
+
+  it('rejects characters outside the base32 alphabet', () => {
+    expect(() => decodeBase32('ABC1')).toThrow(ValidationError);
+  });
+});
+
+describe('generateTotp', () => {
+  it.each([
+    [59, '94287082'],
+    [1_111_111_109, '07081804'],
+    [1_111_111_111, '14050471'],
+    [1_234_567_890, '89005924'],
+    [2_000_000_000, '69279037'],
+  ])('matches the RFC 6238 SHA-1 vector at T=%i', (seconds, expected) => {
+    expect(generateTotp(RFC_SECRET, seconds * 1000, { digits: 8 })).toBe(expected);
+  });
+
+  it('produces six-digit codes by default', () => {
+    expect(generateTotp(RFC_SECRET, 59_000)).toBe('287082');
+  });
+});
+
+describe('createTotpCodeProvider', () => {
+  it('waits for the next time step before generating a second code', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(1_000_010_000);
+    const provider = createTotpCodeProvider(RFC_SECRET);
+
+    const first = await provider();
+    expect(first).toBe(generateTotp(RFC_SECRET, 1_000_010_000));
+
+    const second = provider();
+    await vi.advanceTimersByTimeAsync(20_000);
+    await expect(second).resolves.toBe(generateTotp(RFC_SECRET, 1_000_020_000));
+  });
+
+  it('rejects an invalid secret immediately', () => {
+    expect(() => createTotpCodeProvider('not base32!')).toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,56 @@
+import { DateTime } from 'luxon';
+import { z } from 'zod';
+
+import { ValidationError } from '../errors';
+import { HttpClient } from '../http-client';
+import {
+  GarminConnectTrainingClient,
+  HeartRateZoneScalar,
+  HeartRateZoneScalarSchema,
+  TrainingStatusDailyScalar,
+  TrainingStatusDailyScalarSchema,
+  TrainingStatusWeeklyScalar,
+  TrainingStatusWeeklyScalarSchema,
+} from '../types';
+import { GarminUrls } from '../urls';
+
+import { assertValidHeartRateZones } from './heart-rate-zones';
+
+// Response schema for heart rate zones (one entry per sport)
+const HeartRateZonesResponseSchema = z.array(HeartRateZoneScalarSchema);
+
+export class TrainingClientImpl implements GarminConnectTrainingClient {
+  public constructor(
+    private readonly httpClient: HttpClient,
+    private readonly urls: GarminUrls
+  ) {}
+
+  public async getTrainingStatus(date: DateTime<true> = DateTime.now()): Promise<TrainingStatusDailyScalar> {
+    const url = this.urls.TRAINING_STATUS_DAILY(date);
+    const response = await this.httpClient.get(url);
+    return TrainingStatusDailyScalarSchema.parse(response);
+  }
+
+  public async getWeeklyTrainingStatus(from: DateTime<true>, to: DateTime<true>): Promise<TrainingStatusWeeklyScalar> {
+    const url = this.urls.TRAINING_STATUS_WEEKLY(from, to);
+    const response = await this.httpClient.get(url);
+    return TrainingStatusWeeklyScalarSchema.parse(response);
+  }
+
+  public async getHeartRateZones(): Promise<HeartRateZoneScalar[]> {
+    const url = this.urls.HEART_RATE_ZONES();
+    const response = await this.httpClient.get(url);
+    return HeartRateZonesResponseSchema.parse(response);
+  }
+
+  public async updateHeartRateZones(zones: HeartRateZoneScalar[]): Promise<void> {
+    const parsed = HeartRateZonesResponseSchema.safeParse(zones);
+    if (!parsed.success) {
+      throw new ValidationError(`Invalid heart rate zones: ${parsed.error.message}`);
+    }
+    assertValidHeartRateZones(parsed.data);
+
+    const url = this.urls.HEART_RATE_ZONES();
+    await this.httpClient.put(url, parsed.data);
+  }
+}
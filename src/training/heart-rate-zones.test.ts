@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+
+import { ValidationError } from '../errors';
+import { ChangeState, Sport, TrainingMethod, type HeartRateZoneScalar } from '../types';
+
+import { assertValidHeartRateZones } from './heart-rate-zones';
+
+function zones(overrides: Partial<HeartRateZoneScalar> = {}): HeartRateZoneScalar {
+  return {
+    trainingMethod: TrainingMethod.MAX_HR,
+    restingHeartRateUsed: 50,
+    zone1Floor: 95,
+    zone2Floor: 114,
+    zone3Floor: 133,
+    zone4Floor: 152,
+    zone5Floor: 171,
+    maxHeartRateUsed: 190,
+    restingHrAutoUpdateUsed: false,
+    sport: Sport.DEFAULT,
+    changeState: ChangeState.CHANGED,
+    ...overrides,
+  };
+}
+
+describe('assertValidHeartRateZones', () => {
+  it('accepts ascending zone floors', () => {
+    expect(() => assertValidHeartRateZones([zones(), zones({ sport: Sport.RUNNING })])).not.toThrow();
+  });
+
+  it('rejects zone floors that are not strictly ascending', () => {
+    expect(() => assertValidHeartRateZones([zones({ zone3Floor: 114 })])).toThrow(ValidationError);
+  });
+
+  it('rejects a zone5Floor above the max heart rate', () => {
+    expect(() => assertValidHeartRateZones([zones({ zone5Floor: 195 })])).toThrow(ValidationError);
+  });
+
+  it('rejects more than one configuration for the same sport', () => {
+    expect(() => assertValidHeartRateZones([zones(), zones()])).toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,34 @@
+import { ValidationError } from '../errors';
+import type { HeartRateZoneScalar } from '../types';
+
+const ZONE_FLOOR_KEYS = ['zone1Floor', 'zone2Floor', 'zone3Floor', 'zone4Floor', 'zone5Floor'] as const;
+
+// Checks that each sport's zone floors are strictly ascending and that the top
+// zone floor does not exceed the max heart rate. Garmin accepts out-of-order
+// floors on PUT and then renders nonsensical zones, so we reject them up front.
+export function assertValidHeartRateZones(zones: HeartRateZoneScalar[]): void {
+  const seenSports = new Set<string>();
+
+  for (const zone of zones) {
+    if (seenSports.has(zone.sport)) {
+      throw new ValidationError(`Duplicate heart rate zone configuration for sport ${zone.sport}`);
+    }
+    seenSports.add(zone.sport);
+
+    for (let index = 1; index < ZONE_FLOOR_KEYS.length; index++) {
+      const lowerKey = ZONE_FLOOR_KEYS[index - 1];
+      const upperKey = ZONE_FLOOR_KEYS[index];
+      if (zone[upperKey] <= zone[lowerKey]) {
+        throw new ValidationError(
+          `Heart rate zone floors for ${zone.sport} must be ascending: ${upperKey} (${zone[upperKey]}) <= ${lowerKey} (${zone[lowerKey]})`
+        );
+      }
+    }
+
+    if (zone.zone5Floor > zone.maxHeartRateUsed) {
+      throw new ValidationError(
+        `Heart rate zone5Floor for ${zone.sport} (${zone.zone5Floor}) exceeds maxHeartRateUsed (${zone.maxHeartRateUsed})`
+      );
+    }
+  }
+}
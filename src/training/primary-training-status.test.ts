@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  AcwrStatus,
+  AcwrStatusFeedback,
+  FitnessTrend,
+  Sport,
+  SubSport,
+  TrainingStatus,
+  TrainingStatusFeedbackPhrase,
+  type TrainingStatusDailyScalar,
+  type TrainingStatusData,
+} from '../types';
+
+import { getPrimaryTrainingStatusData } from './primary-training-status';
+
+function statusData(deviceId: number, primaryTrainingDevice: boolean): TrainingStatusData {
+  return {
+    calendarDate: '2026-04-16',
+    sinceDate: '2026-04-01',
+    weeklyTrainingLoad: 750,
+    trainingStatus: TrainingStatus.PRODUCTIVE,
+    timestamp: 1_776_300_000_000,
+    deviceId,
+    loadTunnelMin: 500,
+    loadTunnelMax: 900,
+    loadLevelTrend: 1,
+    sport: Sport.RUNNING,
+    subSport: SubSport.GENERIC,
+    fitnessTrendSport: Sport.RUNNING,
+    fitnessTrend: FitnessTrend.IMPROVING,
+    trainingStatusFeedbackPhrase: TrainingStatusFeedbackPhrase.PRODUCTIVE_1,
+    trainingPaused: false,
+    acuteTrainingLoadDTO: {
+      acwrPercent: 50,
+      acwrStatus: AcwrStatus.OPTIMAL,
+      acwrStatusFeedback: AcwrStatusFeedback.FEEDBACK_2,
+      dailyTrainingLoadAcute: 400,
+      maxTrainingLoadChronic: 500,
+      minTrainingLoadChronic: 250,
+      dailyTrainingLoadChronic: 350,
+      dailyAcuteChronicWorkloadRatio: 1.1,
+    },
+    primaryTrainingDevice,
+  };
+}
+
+function scalar(entries: TrainingStatusData[]): TrainingStatusDailyScalar {
+  return {
+    userId: 1,
+    latestTrainingStatusData: Object.fromEntries(entries.map(entry => [String(entry.deviceId), entry])),
+    recordedDevices: [],
+    showSelector: entries.length > 1,
+    lastPrimarySyncDate: '2026-04-16',
+  };
+}
+
+describe('getPrimaryTrainingStatusData', () => {
+  it('returns the entry flagged as the primary training device', () => {
+    const result = getPrimaryTrainingStatusData(scalar([statusData(1, false), statusData(2, true)]));
+    expect(result?.deviceId).toBe(2);
+  });
+
+  it('returns undefined when no device is primary', () => {
+    expect(getPrimaryTrainingStatusData(scalar([statusData(1, false)]))).toBeUndefined();
+  });
+});
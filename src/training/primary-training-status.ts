@@ -0,0 +1,8 @@
+import type { TrainingStatusDailyScalar, TrainingStatusData } from '../types';
+
+// Picks the entry reported by the user's primary training device out of
+// `latestTrainingStatusData`, which Garmin keys by device ID. Returns
+// undefined when no recorded device is flagged as primary.
+export function getPrimaryTrainingStatusData(scalar: TrainingStatusDailyScalar): TrainingStatusData | undefined {
+  return Object.values(scalar.latestTrainingStatusData).find(data => data.primaryTrainingDevice);
+}
@@ -1,10 +1,25 @@
 // Type definitions for Garmin Connect
 
+import type { Readable } from 'node:stream';
+
 import { DateTime } from 'luxon';
 import { z } from 'zod';
 
+import { ActivityDetails, ActivityDetailsOptions } from './activity/types/activity-details';
+import { ActivityDownloadFormat, ActivityDownloadOptions } from './activity/types/activity-download';
+import { ActivitySplits, ActivityTypedSplits } from './activity/types/activity-splits';
+import { ActivitySubtype } from './activity/types/activity-subtypes';
+import { ActivityUpdate } from './activity/types/activity-update';
+import { ActivityUploadOptions } from './activity/types/activity-upload';
+import { ExerciseSet, ManualActivity } from './activity/types/manual-activity';
+import { PersonalRecord } from './activity/types/personal-record';
+import { TimeInZone } from './activity/types/time-in-zone';
 import { DailySleepData } from './sleep/types/daily-sleep-data';
 import { SleepStats } from './sleep/types/sleep-stats';
+import { UnitSystem } from './units';
+import { BodyBatteryEvent } from './wellness/types/body-battery-event';
+import { DailyHeartRate } from './wellness/types/daily-heart-rate';
+import { DailyStress } from './wellness/types/daily-stress';
 
 // ============================================================================
 // Enums
@@ -179,6 +194,17 @@ export enum ActivityTypeKey {
   WINGSUIT_FLYING = 'wingsuit_flying',
 }
 
+// Groups of activity types that share sport-specific fields (see
+// src/activity/activity-family.ts for the mapping)
+export enum ActivityFamily {
+  RUNNING = 'running',
+  CYCLING = 'cycling',
+  SWIMMING = 'swimming',
+  STRENGTH = 'strength',
+  DIVING = 'diving',
+  GENERIC = 'generic',
+}
+
 export enum EventTypeKey {
   UNCATEGORIZED = 'uncategorized',
   FITNESS = 'fitness',
@@ -271,6 +297,7 @@ export enum BodyBatteryShortFeedback {
 export enum BodyBatteryEventType {
   SLEEP = 'SLEEP',
   ACTIVITY = 'ACTIVITY',
+  NAP = 'NAP',
   RECOVERY = 'RECOVERY',
 }
 
@@ -953,9 +980,67 @@ export type HeartRateZoneScalar = z.infer<typeof HeartRateZoneScalarSchema>;
 // Client Configuration Types
 // ============================================================================
 
-export interface GarminConnectClientConfig {
+// Details passed to `RetryPolicy.onRetry` before a failed request is replayed.
+export interface RetryContext {
+  // 1-based number of the retry about to be made (the first retry is 1)
+  attempt: number;
+  // How long the client will wait before retrying
+  delayMs: number;
+  method: string;
+  url?: string;
+  // The failure that triggered the retry
+  error: Error;
+}
+
+// Automatic retry of transient failures (429, 5xx and dropped connections).
+// Every field is optional; omitted fields fall back to the defaults below.
+export interface RetryPolicy {
+  // Total attempts per request including the first one (default 3)
+  maxAttempts?: number;
+  // Base delay for exponential backoff (default 500ms)
+  baseDelayMs?: number;
+  // Upper bound for any single delay, including `Retry-After` (default 30s)
+  maxDelayMs?: number;
+  // HTTP methods that may be replayed (default GET, HEAD, OPTIONS, PUT, DELETE)
+  retryableMethods?: string[];
+  // Response status codes that trigger a retry (default 429, 500, 502, 503, 504)
+  retryableStatusCodes?: number[];
+  // Called (and awaited) before each retry, e.g. for logging or metrics
+  onRetry?: (context: RetryContext) => void | Promise<void>;
+}
+
+// Options shared by every way of constructing a client (`login`, `fromSession`).
+export interface GarminConnectClientOptions {
+  // Retry policy for API requests; pass `false` to disable retries
+  retry?: RetryPolicy | false;
+  // Refresh the access token before a request when it expires within this
+  // many seconds (default 60). Set to 0 to refresh only after a 401.
+  tokenRefreshSkewSeconds?: number;
+  // Persists the session after authentication and after every token refresh
+  sessionStore?: SessionStore;
+  // HMAC key used to sign the `MfaPending` returned by login(config) and to
+  // verify it in login(pending, code). Required when the pending value is
+  // stored somewhere the user can modify, such as a browser cookie.
+  mfaPendingSigningKey?: string | Buffer;
+}
+
+// Supplies an MFA code on demand, e.g. by prompting the user. Called again
+// after each rejected code, up to `mfaMaxAttempts` times.
+export type MfaCodeProvider = () => Promise<string>;
+
+export interface GarminConnectClientConfig extends GarminConnectClientOptions {
   username: string;
   password: string;
+  // When set, login() requests the MFA code from this provider and resolves
+  // straight to a client instead of returning an `MfaPending` value
+  mfaCodeProvider?: MfaCodeProvider;
+  // Base32 authenticator-app secret. When set (and no `mfaCodeProvider` is
+  // given), login() generates RFC 6238 codes itself and resolves to a client
+  totpSecret?: string;
+  // How many codes to request before giving up (default 3 with
+  // `mfaCodeProvider`, 2 with `totpSecret`: the current and the next time step).
+  // Must be a positive integer; login() throws `ValidationError` otherwise
+  mfaMaxAttempts?: number;
 }
 
 export interface GarminConnectSleepClient {
@@ -963,13 +1048,83 @@ export interface GarminConnectSleepClient {
   getSleepStats(from: DateTime<true>, to: DateTime<true>): Promise<SleepStats>;
 }
 
+export interface GarminConnectWellnessClient {
+  getDailySummary(date?: DateTime<true>): Promise<UserDailySummary>;
+  getDailySummaries(from: DateTime<true>, to: DateTime<true>): Promise<UserDailySummary[]>;
+  // Heart rate samples for the day, with resting and 7-day average resting heart rate
+  getDailyHeartRate(date?: DateTime<true>): Promise<DailyHeartRate>;
+  // Intraday stress (3-minute resolution) and Body Battery level series for the day
+  getDailyStress(date?: DateTime<true>): Promise<DailyStress>;
+  // Body Battery charge/drain events (sleep, activities, naps, recovery) in a date range
+  getBodyBatteryEvents(from: DateTime<true>, to: DateTime<true>): Promise<BodyBatteryEvent[]>;
+}
+
+export interface GarminConnectTrainingClient {
+  getTrainingStatus(date?: DateTime<true>): Promise<TrainingStatusDailyScalar>;
+  getWeeklyTrainingStatus(from: DateTime<true>, to: DateTime<true>): Promise<TrainingStatusWeeklyScalar>;
+  getHeartRateZones(): Promise<HeartRateZoneScalar[]>;
+  updateHeartRateZones(zones: HeartRateZoneScalar[]): Promise<void>;
+}
+
+// Server-side filters for the activity search endpoint
+export interface ActivitySearchFilters {
+  // Only activities on or after this calendar date
+  startDate?: DateTime<true>;
+  // Only activities on or before this calendar date
+  endDate?: DateTime<true>;
+  activityType?: ActivityTypeKey;
+  // Free-text match against the activity name
+  search?: string;
+}
+
+export interface ActivityIterationOptions extends ActivitySearchFilters {
+  // Activities fetched per request (default 100); must be a positive integer
+  pageSize?: number;
+}
+
 export interface GarminConnectClient {
   sleep: GarminConnectSleepClient;
-  getActivities(start?: number, limit?: number): Promise<Activity[]>;
-  getActivity(id: string): Promise<Activity>;
+  wellness: GarminConnectWellnessClient;
+  training: GarminConnectTrainingClient;
+  // Activities are tagged with their `family`; narrow with `isRunningActivity()` etc.
+  getActivities(start?: number, limit?: number): Promise<ActivitySubtype[]>;
+  getActivity(id: string): Promise<ActivitySubtype>;
+  // Per-measurement time series (HR, speed, elevation, ...) and the GPS polyline
+  getActivityDetails(id: string, options?: ActivityDetailsOptions): Promise<ActivityDetails>;
+  // Laps as recorded on the device (auto-lap, lap button or workout steps)
+  getActivitySplits(id: string): Promise<ActivitySplits>;
+  // Segments classified by Garmin, e.g. active/recovery intervals or run/walk
+  getActivityTypedSplits(id: string): Promise<ActivityTypedSplits>;
+  // Seconds spent in each zone, using the zones configured when the activity was recorded
+  getActivityHrTimeInZones(id: string): Promise<TimeInZone[]>;
+  getActivityPowerTimeInZones(id: string): Promise<TimeInZone[]>;
+  // Downloads the original file (`fit`, unzipped) or a Garmin export
+  downloadActivity(id: string, format: ActivityDownloadFormat, options?: { stream?: false }): Promise<Buffer>;
+  downloadActivity(id: string, format: ActivityDownloadFormat, options: { stream: true }): Promise<Readable>;
+  downloadActivity(
+    id: string,
+    format: ActivityDownloadFormat,
+    options?: ActivityDownloadOptions
+  ): Promise<Buffer | Readable>;
+  // Uploads a FIT, GPX or TCX file (path or contents) and resolves to the new
+  // activity ID once Garmin has processed it
+  uploadActivity(file: string | Buffer, options?: ActivityUploadOptions): Promise<number>;
+  // Changes the name, description, activity type and/or privacy of an activity
+  updateActivity(id: string, patch: ActivityUpdate): Promise<void>;
+  deleteActivity(id: string): Promise<void>;
+  // Records an activity without a device and resolves to its activity ID
+  createManualActivity(activity: ManualActivity): Promise<number>;
+  // Replaces the exercise sets of a strength training activity
+  setExerciseSets(activityId: string, sets: ExerciseSet[]): Promise<void>;
+  // Pages through every activity matching the filters, newest first
+  iterateActivities(options?: ActivityIterationOptions): AsyncIterable<ActivitySubtype>;
   getGolfActivities(page?: number, perPage?: number, locale?: string): Promise<GolfActivitiesPage>;
   getGolfScorecardDetail(scorecardId: number, locale?: string): Promise<GolfScorecardDetailWithSnapshot>;
   getGolfRounds(page?: number, perPage?: number, locale?: string): Promise<GolfRoundsPage>;
+  // The user's current personal records, each linked to its source activity
+  getPersonalRecords(): Promise<PersonalRecord[]>;
+  // The user's unit system preference (Garmin Connect `measurementSystem` setting)
+  getUnitSystem(): Promise<UnitSystem>;
   getSession(): PersistedSession;
   // Registers a callback invoked (and awaited) after every automatic token refresh,
   // so the consumer can re-persist the updated session. Replaces any previous callback.
@@ -997,6 +1152,18 @@ export const OAuth2TokenSchema = z.object({
   refresh_token_expires_in: z.number(),
 });
 
+/**
+ * Storage backend for `PersistedSession`. When passed to `login()` or
+ * `fromSession()`, the client saves the session after authenticating and after
+ * every token refresh. See `MemorySessionStore` and `FileSessionStore`.
+ */
+export interface SessionStore {
+  // Returns the stored session, or undefined when nothing has been saved yet
+  load(): Promise<PersistedSession | undefined>;
+  save(session: PersistedSession): Promise<void>;
+  clear(): Promise<void>;
+}
+
 /**
  * Serializable session data for persistence.
  * Store this (e.g. in a file or secure storage) and use `fromSession()` to restore a client.
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  UnitSystem,
+  celsiusToFahrenheit,
+  formatDistance,
+  formatDuration,
+  formatElevation,
+  formatPace,
+  formatTemperature,
+  metersToFeet,
+  metersToMiles,
+  speedToPace,
+} from './units';
+
+describe('unit conversions', () => {
+  it('converts metric values', () => {
+    expect(metersToMiles(1609.344)).toBe(1);
+    expect(metersToFeet(0.3048)).toBe(1);
+    expect(celsiusToFahrenheit(100)).toBe(212);
+  });
+
+  it('converts speed to pace per kilometer or mile', () => {
+    expect(speedToPace(4, UnitSystem.METRIC)).toBe(250);
+    expect(speedToPace(4, UnitSystem.STATUTE_US)).toBeCloseTo(402.336);
+    expect(speedToPace(0, UnitSystem.METRIC)).toBeUndefined();
+  });
+});
+
+describe('formatters', () => {
+  it('formats durations as hh:mm:ss', () => {
+    expect(formatDuration(3903.4)).toBe('01:05:03');
+    expect(formatDuration(59.6)).toBe('00:01:00');
+  });
+
+  it('formats pace in the unit system', () => {
+    expect(formatPace(3.5, UnitSystem.METRIC)).toBe('4:46 /km');
+    expect(formatPace(3.5, UnitSystem.STATUTE_UK)).toBe('7:40 /mi');
+    expect(formatPace(0, UnitSystem.METRIC)).toBeUndefined();
+  });
+
+  it('formats distance, elevation and temperature in the unit system', () => {
+    expect(formatDistance(10_000, UnitSystem.METRIC)).toBe('10.00 km');
+    expect(formatDistance(10_000, UnitSystem.STATUTE_US)).toBe('6.21 mi');
+    expect(formatElevation(100, UnitSystem.STATUTE_US)).toBe('328 ft');
+    expect(formatTemperature(20, UnitSystem.STATUTE_US)).toBe('68 °F');
+    expect(formatTemperature(20, UnitSystem.STATUTE_UK)).toBe('20 °C');
+  });
+});
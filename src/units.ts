@@ -0,0 +1,89 @@
+// Unit conversion and formatting for the raw metric values Garmin returns
+// (meters, meters per second, seconds, degrees Celsius).
+//
+// Every formatter takes the unit system explicitly; use
+// `client.getUnitSystem()` to follow the user's Garmin Connect setting.
+
+// Mirrors the `measurementSystem` user setting. Both statute systems use miles
+// and feet; the UK variant keeps Celsius.
+export enum UnitSystem {
+  METRIC = 'metric',
+  STATUTE_US = 'statute_us',
+  STATUTE_UK = 'statute_uk',
+}
+
+const METERS_PER_KILOMETER = 1000;
+const METERS_PER_MILE = 1609.344;
+const METERS_PER_FOOT = 0.3048;
+
+export function metersToKilometers(meters: number): number {
+  return meters / METERS_PER_KILOMETER;
+}
+
+export function metersToMiles(meters: number): number {
+  return meters / METERS_PER_MILE;
+}
+
+export function metersToFeet(meters: number): number {
+  return meters / METERS_PER_FOOT;
+}
+
+export function celsiusToFahrenheit(celsius: number): number {
+  return (celsius * 9) / 5 + 32;
+}
+
+export function fahrenheitToCelsius(fahrenheit: number): number {
+  return ((fahrenheit - 32) * 5) / 9;
+}
+
+function isMetric(system: UnitSystem): boolean {
+  return system === UnitSystem.METRIC;
+}
+
+// Seconds per kilometer (metric) or per mile (statute). Returns undefined for
+// a speed of zero, where pace is not defined.
+export function speedToPace(metersPerSecond: number, system: UnitSystem): number | undefined {
+  if (metersPerSecond <= 0) {
+    return undefined;
+  }
+  return (isMetric(system) ? METERS_PER_KILOMETER : METERS_PER_MILE) / metersPerSecond;
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+// Formats a duration in seconds as hh:mm:ss, rounded to the nearest second.
+export function formatDuration(seconds: number): string {
+  const total = Math.round(Math.abs(seconds));
+  const sign = seconds < 0 && total > 0 ? '-' : '';
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  return `${sign}${pad(hours)}:${pad(minutes)}:${pad(total % 60)}`;
+}
+
+// Formats a speed as a pace such as "4:45 /km" or "7:38 /mi".
+export function formatPace(metersPerSecond: number, system: UnitSystem): string | undefined {
+  const pace = speedToPace(metersPerSecond, system);
+  if (pace === undefined) {
+    return undefined;
+  }
+  const total = Math.round(pace);
+  return `${Math.floor(total / 60)}:${pad(total % 60)} /${isMetric(system) ? 'km' : 'mi'}`;
+}
+
+export function formatDistance(meters: number, system: UnitSystem, fractionDigits = 2): string {
+  return isMetric(system)
+    ? `${metersToKilometers(meters).toFixed(fractionDigits)} km`
+    : `${metersToMiles(meters).toFixed(fractionDigits)} mi`;
+}
+
+export function formatElevation(meters: number, system: UnitSystem): string {
+  return isMetric(system) ? `${Math.round(meters)} m` : `${Math.round(metersToFeet(meters))} ft`;
+}
+
+export function formatTemperature(celsius: number, system: UnitSystem): string {
+  return system === UnitSystem.STATUTE_US
+    ? `${Math.round(celsiusToFahrenheit(celsius))} °F`
+    : `${Math.round(celsius)} °C`;
+}
@@ -0,0 +1,18 @@
+import { DateTime } from 'luxon';
+import { describe, expect, it } from 'vitest';
+
+import { GarminUrls } from './urls';
+
+const urls = new GarminUrls();
+
+// 00:30 in Berlin is still the previous day in UTC
+const berlinAfterMidnight = DateTime.fromISO('2026-10-19T00:30', { zone: 'Europe/Berlin' }) as DateTime<true>;
+
+describe('GarminUrls training status', () => {
+  it('uses the local calendar date in a zone ahead of UTC', () => {
+    expect(urls.TRAINING_STATUS_DAILY(berlinAfterMidnight)).toMatch(/\/daily\/2026-10-19$/);
+    expect(urls.TRAINING_STATUS_WEEKLY(berlinAfterMidnight.minus({ weeks: 4 }), berlinAfterMidnight)).toMatch(
+      /\/weekly\/2026-09-21\/2026-10-19$/
+    );
+  });
+});
@@ -1,6 +1,10 @@
 import { DateTime } from 'luxon';
 import { stringify } from 'qs';
 
+import type { ActivityExportFormat } from './activity/types/activity-download';
+import type { ActivityUploadFormat } from './activity/types/activity-upload';
+import type { ActivitySearchFilters } from './types';
+
 // Garmin Connect URL constants and construction methods.
 //
 // The SSO embed login flow intentionally omits `clientId` from the signin
@@ -91,14 +95,91 @@ export class GarminUrls {
   }
 
   // Activity API methods
-  ACTIVITY_SEARCH(start = 0, limit = 20): string {
-    return `${this.CONNECT_API}/activitylist-service/activities/search/activities?start=${start}&limit=${limit}`;
+  // Optional filters map onto the activitylist-service query parameters, so
+  // filtering happens server-side rather than after downloading every page.
+  ACTIVITY_SEARCH(start = 0, limit = 20, filters: ActivitySearchFilters = {}): string {
+    const parameters = {
+      start,
+      limit,
+      // Date-only filters: the caller's calendar date, not the UTC one
+      startDate: filters.startDate?.toISODate(),
+      endDate: filters.endDate?.toISODate(),
+      activityType: filters.activityType,
+      search: filters.search,
+    };
+    return `${this.CONNECT_API}/activitylist-service/activities/search/activities?${stringify(parameters)}`;
   }
 
   ACTIVITY_DETAIL(activityId: string | number): string {
     return `${this.CONNECT_API}/activitylist-service/activities/${activityId}`;
   }
 
+  ACTIVITY_DETAILS(activityId: string | number, maxChartSize = 2000, maxPolylineSize = 4000): string {
+    return `${this.CONNECT_API}/activity-service/activity/${activityId}/details?maxChartSize=${maxChartSize}&maxPolylineSize=${maxPolylineSize}`;
+  }
+
+  ACTIVITY_SPLITS(activityId: string | number): string {
+    return `${this.CONNECT_API}/activity-service/activity/${activityId}/splits`;
+  }
+
+  ACTIVITY_TYPED_SPLITS(activityId: string | number): string {
+    return `${this.CONNECT_API}/activity-service/activity/${activityId}/typedsplits`;
+  }
+
+  ACTIVITY_HR_TIME_IN_ZONES(activityId: string | number): string {
+    return `${this.CONNECT_API}/activity-service/activity/${activityId}/hrTimeInZones`;
+  }
+
+  ACTIVITY_POWER_TIME_IN_ZONES(activityId: string | number): string {
+    return `${this.CONNECT_API}/activity-service/activity/${activityId}/powerTimeInZones`;
+  }
+
+  // Original upload, wrapped in a zip archive
+  ACTIVITY_DOWNLOAD_ORIGINAL(activityId: string | number): string {
+    return `${this.CONNECT_API}/download-service/files/activity/${activityId}`;
+  }
+
+  ACTIVITY_EXPORT(activityId: string | number, format: ActivityExportFormat): string {
+    return `${this.CONNECT_API}/download-service/export/${format}/activity/${activityId}`;
+  }
+
+  ACTIVITY_UPLOAD(format: ActivityUploadFormat): string {
+    return `${this.CONNECT_API}/upload-service/upload/.${format}`;
+  }
+
+  // `creationDate` is the upload's creation time in epoch milliseconds
+  ACTIVITY_UPLOAD_STATUS(creationDate: number, uploadUuid: string): string {
+    return `${this.CONNECT_API}/activity-service/activity/status/${creationDate}/${uploadUuid}`;
+  }
+
+  // Target of activity updates (PUT) and deletes
+  ACTIVITY(activityId: string | number): string {
+    return `${this.CONNECT_API}/activity-service/activity/${activityId}`;
+  }
+
+  // Manual activity creation (POST)
+  ACTIVITY_CREATE(): string {
+    return `${this.CONNECT_API}/activity-service/activity`;
+  }
+
+  ACTIVITY_EXERCISE_SETS(activityId: string | number): string {
+    return `${this.CONNECT_API}/activity-service/activity/${activityId}/exerciseSets`;
+  }
+
+  // User profile API methods
+  USER_SETTINGS(): string {
+    return `${this.CONNECT_API}/userprofile-service/userprofile/user-settings`;
+  }
+
+  SOCIAL_PROFILE(): string {
+    return `${this.CONNECT_API}/userprofile-service/socialProfile`;
+  }
+
+  // Personal records API methods
+  PERSONAL_RECORDS(displayName: string): string {
+    return `${this.CONNECT_API}/personalrecord-service/personalrecord/prs/${encodeURIComponent(displayName)}`;
+  }
+
   // Golf API methods
   GOLF_ACTIVITIES(page = 1, perPage = 20, locale = 'en'): string {
     return `${this.GOLF_API_BASE}/activity?user-locale=${locale}&page=${page}&per-page=${perPage}`;
@@ -116,4 +197,35 @@ export class GarminUrls {
   SLEEP_STATS(from: DateTime<true>, to: DateTime<true>): string {
     return `${this.CONNECT_API}/sleep-service/stats/sleep/daily/${from.toUTC().toISODate()}/${to.toUTC().toISODate()}`;
   }
+
+  // Training API methods
+  // Day-keyed like the wellness endpoints: the caller's local calendar date
+  TRAINING_STATUS_DAILY(date: DateTime<true>): string {
+    return `${this.CONNECT_API}/metrics-service/metrics/trainingstatus/daily/${date.toISODate()}`;
+  }
+
+  TRAINING_STATUS_WEEKLY(from: DateTime<true>, to: DateTime<true>): string {
+    return `${this.CONNECT_API}/metrics-service/metrics/trainingstatus/weekly/${from.toISODate()}/${to.toISODate()}`;
+  }
+
+  HEART_RATE_ZONES(): string {
+    return `${this.CONNECT_API}/biometric-service/heartRateZones`;
+  }
+
+  // Wellness API methods
+  DAILY_SUMMARY(date: DateTime<true>): string {
+    return `${this.CONNECT_API}/usersummary-service/usersummary/daily?calendarDate=${date.toISODate()}`;
+  }
+
+  DAILY_HEART_RATE(date: DateTime<true>): string {
+    return `${this.CONNECT_API}/wellness-service/wellness/dailyHeartRate?date=${date.toISODate()}`;
+  }
+
+  DAILY_STRESS(date: DateTime<true>): string {
+    return `${this.CONNECT_API}/wellness-service/wellness/dailyStress/${date.toISODate()}`;
+  }
+
+  BODY_BATTERY_EVENTS(date: DateTime<true>): string {
+    return `${this.CONNECT_API}/wellness-service/wellness/bodyBattery/events/${date.toISODate()}`;
+  }
 }
@@ -0,0 +1,61 @@
+import { DateTime } from 'luxon';
+import { z } from 'zod';
+
+import { HttpClient } from '../http-client';
+import { GarminConnectWellnessClient, UserDailySummary, UserDailySummarySchema } from '../types';
+import { GarminUrls } from '../urls';
+
+import { fetchEachDay } from './day-range';
+import { BodyBatteryEvent, BodyBatteryEventSchema } from './types/body-battery-event';
+import { DailyHeartRate, DailyHeartRateSchema } from './types/daily-heart-rate';
+import { DailyStress, DailyStressSchema } from './types/daily-stress';
+
+// Response schema for one day of Body Battery events
+const BodyBatteryEventsResponseSchema = z.array(BodyBatteryEventSchema);
+
+export class WellnessClientImpl implements GarminConnectWellnessClient {
+  public constructor(
+    private readonly httpClient: HttpClient,
+    private readonly urls: GarminUrls
+  ) {}
+
+  public async getDailySummary(date: DateTime<true> = DateTime.now()): Promise<UserDailySummary> {
+    const url = this.urls.DAILY_SUMMARY(date);
+    const response = await this.httpClient.get(url);
+    return UserDailySummarySchema.parse(response);
+  }
+
+  // The usersummary-service only serves one calendar day per request, so a
+  // range is fetched as one request per day (inclusive of both ends), a few
+  // at a time.
+  public async getDailySummaries(from: DateTime<true>, to: DateTime<true>): Promise<UserDailySummary[]> {
+    return fetchEachDay(from, to, day => this.getDailySummary(day));
+  }
+
+  public async getDailyHeartRate(date: DateTime<true> = DateTime.now()): Promise<DailyHeartRate> {
+    const url = this.urls.DAILY_HEART_RATE(date);
+    const response = await this.httpClient.get(url);
+    return DailyHeartRateSchema.parse(response);
+  }
+
+  public async getDailyStress(date: DateTime<true> = DateTime.now()): Promise<DailyStress> {
+    const url = this.urls.DAILY_STRESS(date);
+    const response = await this.httpClient.get(url);
+    return DailyStressSchema.parse(response);
+  }
+
+  // Like daily summaries, events are served one calendar day per request and
+  // fetched a few days at a time. An event reported on two adjacent days is
+  // only returned once.
+  public async getBodyBatteryEvents(from: DateTime<true>, to: DateTime<true>): Promise<BodyBatteryEvent[]> {
+    const days = await fetchEachDay(from, to, async day =>
+      BodyBatteryEventsResponseSchema.parse(await this.httpClient.get(this.urls.BODY_BATTERY_EVENTS(day)))
+    );
+
+    const events = new Map<string, BodyBatteryEvent>();
+    for (const event of days.flat()) {
+      events.set(`${event.eventType}:${event.eventStartTimeGmt}`, event);
+    }
+    return [...events.values()].sort((a, b) => a.startTime.toMillis() - b.startTime.toMillis());
+  }
+}
@@ -0,0 +1,70 @@
+import { DateTime } from 'luxon';
+import { describe, expect, it } from 'vitest';
+
+import { GarminUrls } from '../urls';
+
+import { eachDay, fetchEachDay, MAX_CONCURRENT_DAY_REQUESTS } from './day-range';
+
+const urls = new GarminUrls();
+
+function berlin(iso: string): DateTime<true> {
+  return DateTime.fromISO(iso, { zone: 'Europe/Berlin' }) as DateTime<true>;
+}
+
+describe('eachDay', () => {
+  it('requests the local calendar dates in a zone ahead of UTC', () => {
+    const days = eachDay(berlin('2026-10-17T09:00'), berlin('2026-10-19T09:00'));
+
+    expect(days.map(day => urls.DAILY_SUMMARY(day).split('calendarDate=')[1])).toEqual([
+      '2026-10-17',
+      '2026-10-18',
+      '2026-10-19',
+    ]);
+    expect(urls.BODY_BATTERY_EVENTS(days[0])).toMatch(/\/events\/2026-10-17$/);
+  });
+
+  it('requests daily heart rate for the local date just after midnight ahead of UTC', () => {
+    const [day] = eachDay(berlin('2026-10-19T00:30'), berlin('2026-10-19T00:30'));
+
+    expect(urls.DAILY_HEART_RATE(day)).toMatch(/date=2026-10-19$/);
+  });
+
+  it('includes both ends of a single-day range', () => {
+    expect(eachDay(berlin('2026-10-17T23:30'), berlin('2026-10-17T23:30'))).toHaveLength(1);
+  });
+});
+
+describe('fetchEachDay', () => {
+  it('limits requests in flight and keeps results in day order', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const results = await fetchEachDay(berlin('2026-10-01T12:00'), berlin('2026-10-14T12:00'), async day => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise(resolve => setTimeout(resolve, 14 - day.day));
+      inFlight--;
+      return day.toISODate();
+    });
+
+    expect(maxInFlight).toBe(MAX_CONCURRENT_DAY_REQUESTS);
+    expect(results).toHaveLength(14);
+    expect(results[0]).toBe('2026-10-01');
+    expect(results[13]).toBe('2026-10-14');
+  });
+
+  it('stops fetching new days after a failure', async () => {
+    const fetched: string[] = [];
+    const fetching = fetchEachDay(berlin('2026-10-01T12:00'), berlin('2026-10-30T12:00'), async day => {
+      fetched.push(day.toISODate());
+      if (day.day === 1) {
+        throw new Error('session expired');
+      }
+      await new Promise(resolve => setTimeout(resolve, 5));
+      return day.toISODate();
+    });
+
+    await expect(fetching).rejects.toThrow('session expired');
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(fetched).toHaveLength(MAX_CONCURRENT_DAY_REQUESTS);
+  });
+});
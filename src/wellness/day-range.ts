@@ -0,0 +1,47 @@
+// Day-by-day fetching for wellness endpoints that serve one calendar day per
+// request.
+
+import type { DateTime } from 'luxon';
+
+// Upper bound on in-flight requests while fetching a range, so multi-week
+// ranges do not trip Garmin's rate limiting.
+export const MAX_CONCURRENT_DAY_REQUESTS = 4;
+
+// Returns each calendar day from `from` to `to` (inclusive), at midnight in
+// `from`'s time zone. URLs built from these days must use the local calendar
+// date (`toISODate()`), not the UTC one, or zones ahead of UTC shift back a day.
+export function eachDay(from: DateTime<true>, to: DateTime<true>): DateTime<true>[] {
+  const days: DateTime<true>[] = [];
+  for (let day = from.startOf('day'); day <= to; day = day.plus({ days: 1 })) {
+    days.push(day);
+  }
+  return days;
+}
+
+// Calls `fetchDay` for every day in the range with at most
+// MAX_CONCURRENT_DAY_REQUESTS calls in flight. Results are in day order. The
+// first failure rejects the whole range and no further days are fetched.
+export async function fetchEachDay<T>(
+  from: DateTime<true>,
+  to: DateTime<true>,
+  fetchDay: (day: DateTime<true>) => Promise<T>
+): Promise<T[]> {
+  const days = eachDay(from, to);
+  const results = Array.from<T>({ length: days.length });
+  let next = 0;
+  // Once any fetch fails the range has failed; stop taking new days
+  let failed = false;
+  const worker = async (): Promise<void> => {
+    while (!failed && next < days.length) {
+      const index = next++;
+      try {
+        results[index] = await fetchDay(days[index]);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(MAX_CONCURRENT_DAY_REQUESTS, days.length) }, worker));
+  return results;
+}
@@ -0,0 +1,6 @@
+export * from './client';
+export * from './stress-levels';
+export * from './types/body-battery-event';
+export * from './types/daily-heart-rate';
+export * from './types/daily-stress';
+export * from './types/value-descriptor';
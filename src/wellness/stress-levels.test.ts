@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+
+import { BodyBatteryLevel, StressQualifier } from '../types';
+
+import { toBodyBatteryLevel, toStressQualifier } from './stress-levels';
+
+describe('toStressQualifier', () => {
+  it('maps stress levels onto Garmin ranges', () => {
+    expect(toStressQualifier(25)).toBe(StressQualifier.CALM);
+    expect(toStressQualifier(26)).toBe(StressQualifier.BALANCED);
+    expect(toStressQualifier(51)).toBe(StressQualifier.STRESSFUL);
+  });
+});
+
+describe('toBodyBatteryLevel', () => {
+  it('maps Body Battery values onto Garmin ranges', () => {
+    expect(toBodyBatteryLevel(25)).toBe(BodyBatteryLevel.LOW);
+    expect(toBodyBatteryLevel(75)).toBe(BodyBatteryLevel.MEDIUM);
+    expect(toBodyBatteryLevel(76)).toBe(BodyBatteryLevel.HIGH);
+  });
+});
@@ -0,0 +1,23 @@
+import { BodyBatteryLevel, StressQualifier } from '../types';
+
+// Upper bounds of Garmin's stress ranges: 0-25 rest, 26-50 low, 51-100 medium to high
+const CALM_MAX_STRESS = 25;
+const BALANCED_MAX_STRESS = 50;
+
+// Upper bounds of Garmin's Body Battery ranges: 0-25 low, 26-75 medium, 76-100 high
+const LOW_MAX_BODY_BATTERY = 25;
+const MEDIUM_MAX_BODY_BATTERY = 75;
+
+export function toStressQualifier(stressLevel: number): StressQualifier {
+  if (stressLevel <= CALM_MAX_STRESS) {
+    return StressQualifier.CALM;
+  }
+  return stressLevel <= BALANCED_MAX_STRESS ? StressQualifier.BALANCED : StressQualifier.STRESSFUL;
+}
+
+export function toBodyBatteryLevel(bodyBattery: number): BodyBatteryLevel {
+  if (bodyBattery <= LOW_MAX_BODY_BATTERY) {
+    return BodyBatteryLevel.LOW;
+  }
+  return bodyBattery <= MEDIUM_MAX_BODY_BATTERY ? BodyBatteryLevel.MEDIUM : BodyBatteryLevel.HIGH;
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+
+import { BodyBatteryEventType, BodyBatteryFeedbackType } from '../../types';
+
+import { BodyBatteryEventSchema } from './body-battery-event';
+
+describe('BodyBatteryEventSchema', () => {
+  it('flattens activity events and parses the start time as UTC', () => {
+    const event = BodyBatteryEventSchema.parse({
+      event: {
+        eventType: 'ACTIVITY',
+        eventStartTimeGmt: '2024-05-01T06:30:00.0',
+        durationInMilliseconds: 3_600_000,
+        bodyBatteryImpact: -14,
+        feedbackType: 'EXERCISE_TRAINING_EFFECT_3',
+        shortFeedback: 'IMPROVING_AEROBIC_BASE',
+      },
+      activityId: 123,
+      activityName: 'Morning Run',
+      activityType: 'running',
+      averageStress: 61,
+    });
+
+    expect(event).toMatchObject({
+      eventType: BodyBatteryEventType.ACTIVITY,
+      durationInMillis: 3_600_000,
+      bodyBatteryImpact: -14,
+      feedbackType: BodyBatteryFeedbackType.EXERCISE_TRAINING_EFFECT_3,
+      activityId: 123,
+    });
+    expect(event.startTime.toISO()).toBe('2024-05-01T06:30:00.000Z');
+  });
+});
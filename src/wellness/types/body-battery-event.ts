@@ -0,0 +1,42 @@
+import { DateTime } from 'luxon';
+import { z } from 'zod';
+
+import { BodyBatteryEventType, BodyBatteryFeedbackType, BodyBatteryShortFeedback } from '../../types';
+
+// A Body Battery charge or drain event (sleep, activity, nap or recovery),
+// flattened from the wellness service's `{ event, activity... }` entries.
+export const BodyBatteryEventSchema = z
+  .object({
+    event: z
+      .object({
+        eventType: z.nativeEnum(BodyBatteryEventType),
+        eventStartTimeGmt: z.string().refine(value => DateTime.fromISO(value).isValid, 'Invalid ISO 8601 timestamp'), // without offset
+        timezoneOffset: z.number().optional(), // in milliseconds
+        durationInMilliseconds: z.number(),
+        bodyBatteryImpact: z.number(),
+        feedbackType: z.nativeEnum(BodyBatteryFeedbackType),
+        shortFeedback: z.nativeEnum(BodyBatteryShortFeedback),
+        deviceId: z.number().optional(),
+      })
+      .passthrough(),
+    activityId: z.number().nullable().optional(),
+    activityName: z.string().nullable().optional(),
+    activityType: z.string().nullable().optional(),
+    averageStress: z.number().nullable().optional(),
+  })
+  .transform(({ event, activityId, activityName, activityType, averageStress }) => ({
+    eventType: event.eventType,
+    eventStartTimeGmt: event.eventStartTimeGmt,
+    startTime: DateTime.fromISO(event.eventStartTimeGmt, { zone: 'utc' }) as DateTime<true>,
+    durationInMillis: event.durationInMilliseconds,
+    bodyBatteryImpact: event.bodyBatteryImpact,
+    feedbackType: event.feedbackType,
+    shortFeedback: event.shortFeedback,
+    // Only set for activity events
+    activityId: activityId ?? undefined,
+    activityName: activityName ?? undefined,
+    activityType: activityType ?? undefined,
+    averageStress: averageStress ?? undefined,
+  }));
+
+export type BodyBatteryEvent = z.infer<typeof BodyBatteryEventSchema>;
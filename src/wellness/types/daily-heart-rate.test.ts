@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+
+import { DailyHeartRateSchema } from './daily-heart-rate';
+import type { ValueRow } from './value-descriptor';
+
+describe('DailyHeartRateSchema', () => {
+  it('decodes value rows into timestamped samples and drops missing readings', () => {
+    // eslint-disable-next-line unicorn/no-null
+    const missing: ValueRow = [1_792_368_120_000, null];
+    const dailyHeartRate = DailyHeartRateSchema.parse({
+      calendarDate: '2026-10-19',
+      maxHeartRate: 150,
+      minHeartRate: 48,
+      restingHeartRate: 52,
+      lastSevenDaysAvgRestingHeartRate: 53,
+      heartRateValueDescriptors: [
+        { key: 'timestamp', index: 0 },
+        { key: 'heartrate', index: 1 },
+      ],
+      heartRateValues: [[1_792_368_000_000, 55], missing],
+    });
+
+    expect(dailyHeartRate.samples).toHaveLength(1);
+    expect(dailyHeartRate.samples[0].bpm).toBe(55);
+    expect(dailyHeartRate.samples[0].timestamp.toISO()).toBe('2026-10-19T00:00:00.000Z');
+    expect(dailyHeartRate.restingHeartRate).toBe(52);
+  });
+});
@@ -0,0 +1,42 @@
+import { z } from 'zod';
+
+import { descriptorIndex, readNumber } from '../value-descriptors';
+
+import { EpochMillisTimestampSchema, ValueDescriptorSchema, ValueRowSchema } from './value-descriptor';
+
+// One heart rate reading, parsed from the columns of a value row
+export const HeartRateSampleSchema = z.object({
+  timestamp: EpochMillisTimestampSchema,
+  bpm: z.number(),
+});
+
+// Daily heart rate as returned by the wellness service, with the
+// `[timestamp, bpm]` value rows decoded into samples. Readings the device did
+// not record (null) are dropped.
+export const DailyHeartRateSchema = z
+  .object({
+    calendarDate: z.string(), // YYYY-MM-DD
+    startTimestampGMT: z.string().nullable().optional(),
+    endTimestampGMT: z.string().nullable().optional(),
+    maxHeartRate: z.number().nullable(),
+    minHeartRate: z.number().nullable(),
+    restingHeartRate: z.number().nullable(),
+    lastSevenDaysAvgRestingHeartRate: z.number().nullable(),
+    heartRateValueDescriptors: z.array(ValueDescriptorSchema).nullable().optional(),
+    heartRateValues: z.array(ValueRowSchema).nullable().optional(),
+  })
+  .transform(({ heartRateValueDescriptors, heartRateValues, ...summary }) => {
+    const timestampIndex = descriptorIndex(heartRateValueDescriptors, 'timestamp', 0);
+    const bpmIndex = descriptorIndex(heartRateValueDescriptors, 'heartrate', 1);
+    const samples = (heartRateValues ?? []).flatMap(row => {
+      const sample = HeartRateSampleSchema.safeParse({
+        timestamp: row[timestampIndex],
+        bpm: readNumber(row, bpmIndex),
+      });
+      return sample.success ? [sample.data] : [];
+    });
+    return { ...summary, samples };
+  });
+
+export type HeartRateSample = z.infer<typeof HeartRateSampleSchema>;
+export type DailyHeartRate = z.infer<typeof DailyHeartRateSchema>;
@@ -0,0 +1,44 @@
+import { DateTime } from 'luxon';
+import { describe, expect, it } from 'vitest';
+
+import { BodyBatteryLevel, StressQualifier } from '../../types';
+import { GarminUrls } from '../../urls';
+
+import { DailyStressSchema } from './daily-stress';
+
+describe('DailyStressSchema', () => {
+  it('decodes stress and Body Battery rows and omits sentinel readings', () => {
+    const dailyStress = DailyStressSchema.parse({
+      calendarDate: '2026-10-19',
+      maxStressLevel: 80,
+      avgStressLevel: 30,
+      stressValueDescriptorsDTOList: [
+        { key: 'timestamp', index: 0 },
+        { key: 'stressLevel', index: 1 },
+      ],
+      stressValuesArray: [
+        [1_792_368_000_000, 18],
+        [1_792_368_180_000, -2],
+      ],
+      bodyBatteryValueDescriptorsDTOList: [
+        { bodyBatteryValueDescriptorIndex: 0, bodyBatteryValueDescriptorKey: 'timestamp' },
+        { bodyBatteryValueDescriptorIndex: 1, bodyBatteryValueDescriptorKey: 'bodyBatteryStatus' },
+        { bodyBatteryValueDescriptorIndex: 2, bodyBatteryValueDescriptorKey: 'bodyBatteryLevel' },
+      ],
+      bodyBatteryValuesArray: [[1_792_368_000_000, 'MEASURED', 82]],
+    });
+
+    expect(dailyStress.stress).toHaveLength(1);
+    expect(dailyStress.stress[0]).toMatchObject({ stressLevel: 18, qualifier: StressQualifier.CALM });
+    expect(dailyStress.bodyBattery[0]).toMatchObject({ bodyBattery: 82, level: BodyBatteryLevel.HIGH });
+    expect(dailyStress.bodyBattery[0].timestamp.toISO()).toBe('2026-10-19T00:00:00.000Z');
+  });
+});
+
+describe('GarminUrls.DAILY_STRESS', () => {
+  it('requests the local calendar date just after midnight ahead of UTC', () => {
+    const date = DateTime.fromISO('2026-10-19T00:30', { zone: 'Europe/Berlin' }) as DateTime<true>;
+
+    expect(new GarminUrls().DAILY_STRESS(date)).toMatch(/\/dailyStress\/2026-10-19$/);
+  });
+});
@@ -0,0 +1,84 @@
+import { z } from 'zod';
+
+import { toBodyBatteryLevel, toStressQualifier } from '../stress-levels';
+import { descriptorIndex, readNumber } from '../value-descriptors';
+
+import { EpochMillisTimestampSchema, ValueDescriptorSchema, ValueRowSchema } from './value-descriptor';
+
+// One stress reading, parsed from the columns of a value row
+export const StressSampleSchema = z
+  .object({
+    timestamp: EpochMillisTimestampSchema,
+    stressLevel: z.number(), // 0-100
+  })
+  .transform(sample => ({ ...sample, qualifier: toStressQualifier(sample.stressLevel) }));
+
+// One Body Battery reading, parsed from the columns of a value row
+export const BodyBatterySampleSchema = z
+  .object({
+    timestamp: EpochMillisTimestampSchema,
+    bodyBattery: z.number(), // 0-100
+  })
+  .transform(sample => ({ ...sample, level: toBodyBatteryLevel(sample.bodyBattery) }));
+
+// Body Battery columns use their own descriptor field names
+const BodyBatteryValueDescriptorSchema = z
+  .object({
+    bodyBatteryValueDescriptorIndex: z.number(),
+    bodyBatteryValueDescriptorKey: z.string(),
+  })
+  .transform(descriptor => ({
+    key: descriptor.bodyBatteryValueDescriptorKey,
+    index: descriptor.bodyBatteryValueDescriptorIndex,
+  }));
+
+// Intraday stress (one value per 3 minutes) and Body Battery for a day, with
+// the value rows decoded into timestamped samples. Periods without a reading
+// (off-wrist, or during activities for stress) are omitted.
+export const DailyStressSchema = z
+  .object({
+    calendarDate: z.string(), // YYYY-MM-DD
+    startTimestampGMT: z.string().nullable().optional(),
+    endTimestampGMT: z.string().nullable().optional(),
+    maxStressLevel: z.number().nullable(),
+    avgStressLevel: z.number().nullable(),
+    stressValueDescriptorsDTOList: z.array(ValueDescriptorSchema).nullable().optional(),
+    stressValuesArray: z.array(ValueRowSchema).nullable().optional(),
+    bodyBatteryValueDescriptorsDTOList: z.array(BodyBatteryValueDescriptorSchema).nullable().optional(),
+    bodyBatteryValuesArray: z.array(ValueRowSchema).nullable().optional(),
+  })
+  .transform(
+    ({
+      stressValueDescriptorsDTOList,
+      stressValuesArray,
+      bodyBatteryValueDescriptorsDTOList,
+      bodyBatteryValuesArray,
+      ...summary
+    }) => {
+      const stressTimestampIndex = descriptorIndex(stressValueDescriptorsDTOList, 'timestamp', 0);
+      const stressLevelIndex = descriptorIndex(stressValueDescriptorsDTOList, 'stressLevel', 1);
+      const stress = (stressValuesArray ?? []).flatMap(row => {
+        const sample = StressSampleSchema.safeParse({
+          timestamp: row[stressTimestampIndex],
+          stressLevel: readNumber(row, stressLevelIndex),
+        });
+        return sample.success ? [sample.data] : [];
+      });
+
+      const bodyBatteryTimestampIndex = descriptorIndex(bodyBatteryValueDescriptorsDTOList, 'timestamp', 0);
+      const bodyBatteryLevelIndex = descriptorIndex(bodyBatteryValueDescriptorsDTOList, 'bodyBatteryLevel', 2);
+      const bodyBattery = (bodyBatteryValuesArray ?? []).flatMap(row => {
+        const sample = BodyBatterySampleSchema.safeParse({
+          timestamp: row[bodyBatteryTimestampIndex],
+          bodyBattery: readNumber(row, bodyBatteryLevelIndex),
+        });
+        return sample.success ? [sample.data] : [];
+      });
+
+      return { ...summary, stress, bodyBattery };
+    }
+  );
+
+export type StressSample = z.infer<typeof StressSampleSchema>;
+export type BodyBatterySample = z.infer<typeof BodyBatterySampleSchema>;
+export type DailyStress = z.infer<typeof DailyStressSchema>;
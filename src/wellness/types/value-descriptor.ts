@@ -0,0 +1,24 @@
+import { DateTime } from 'luxon';
+import { z } from 'zod';
+
+// Names one column of a wellness values array, e.g. `{ key: 'heartrate', index: 1 }`
+export const ValueDescriptorSchema = z.object({
+  key: z.string(),
+  index: z.number(),
+});
+
+// One row of a wellness values array: a timestamp followed by readings
+export const ValueRowSchema = z.array(z.union([z.number(), z.string()]).nullable());
+
+// A millisecond epoch timestamp from a values array, decoded as a UTC DateTime
+export const EpochMillisTimestampSchema = z.number().transform((millis, context) => {
+  const timestamp = DateTime.fromMillis(millis, { zone: 'utc' });
+  if (!timestamp.isValid) {
+    context.addIssue({ code: z.ZodIssueCode.custom, message: `Invalid epoch timestamp: ${millis}` });
+    return z.NEVER;
+  }
+  return timestamp;
+});
+
+export type ValueDescriptor = z.infer<typeof ValueDescriptorSchema>;
+export type ValueRow = z.infer<typeof ValueRowSchema>;
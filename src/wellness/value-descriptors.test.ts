@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+
+import type { ValueRow } from './types/value-descriptor';
+import { descriptorIndex, readNumber } from './value-descriptors';
+
+describe('descriptorIndex', () => {
+  it('finds a column by key and falls back when no descriptor is sent', () => {
+    const descriptors = [
+      { key: 'heartrate', index: 0 },
+      { key: 'timestamp', index: 1 },
+    ];
+    expect(descriptorIndex(descriptors, 'timestamp', 0)).toBe(1);
+    expect(descriptorIndex(undefined, 'timestamp', 0)).toBe(0);
+  });
+});
+
+describe('readNumber', () => {
+  it('treats nulls and negative sentinels as missing', () => {
+    expect(readNumber([1, 42], 1)).toBe(42);
+    // API rows carry JSON nulls for missing readings
+    // eslint-disable-next-line unicorn/no-null
+    const missing: ValueRow = [1, null];
+    expect(readNumber(missing, 1)).toBeUndefined();
+    expect(readNumber([1, -2], 1)).toBeUndefined();
+  });
+});
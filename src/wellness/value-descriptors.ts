@@ -0,0 +1,19 @@
+import type { ValueDescriptor, ValueRow } from './types/value-descriptor';
+
+// Returns the column holding `key`, or `fallback` when Garmin sends no
+// descriptor for it. Columns are looked up by key because their order is not
+// part of the API contract.
+export function descriptorIndex(
+  descriptors: ValueDescriptor[] | null | undefined,
+  key: string,
+  fallback: number
+): number {
+  return descriptors?.find(descriptor => descriptor.key === key)?.index ?? fallback;
+}
+
+// Reads a numeric reading from a row, treating nulls and negative sentinels
+// (Garmin uses -1 and -2 for "no data") as missing.
+export function readNumber(row: ValueRow, index: number): number | undefined {
+  const value = row[index];
+  return typeof value === 'number' && value >= 0 ? value : undefined;
+}